@@ -0,0 +1,176 @@
+/**
+ * Backup providers
+ *
+ * Keep copies of the exported options outside the browser, e.g. in a GitHub Gist.
+ * Every backup creates a revision, and any revision can be restored later.
+ */
+
+import { NetworkError } from './errors';
+import { fetchUrl, httpErrorForStatus, type FetchFunction } from './download';
+
+/**
+ * A stored backup
+ */
+export interface BackupRevision {
+  /** Provider-specific revision ID */
+  id: string;
+  /** ISO date of the backup */
+  date: string;
+}
+
+/**
+ * Storage for backups of the exported options
+ */
+export interface BackupProvider {
+  readonly name: string;
+
+  /**
+   * Store exported options as a new revision
+   */
+  backup(content: string): Promise<BackupRevision>;
+
+  /**
+   * List the stored revisions, newest first
+   */
+  revisions(): Promise<BackupRevision[]>;
+
+  /**
+   * Get the exported options of a revision (defaults to the latest one)
+   */
+  restore(revision?: string): Promise<string>;
+}
+
+/**
+ * Gist backup configuration
+ */
+export interface GistBackupConfig {
+  /** GitHub token with the gist scope */
+  token: string;
+  /** Gist holding the backups, created on the first backup if not given */
+  gistId?: string | null;
+  /** GitHub API URL */
+  apiUrl?: string;
+  /** File name of the options in the gist */
+  filename?: string;
+  /** Fetch implementation to use */
+  fetch?: FetchFunction;
+}
+
+interface GistFile {
+  content?: string;
+  truncated?: boolean;
+  raw_url?: string;
+}
+
+interface Gist {
+  id: string;
+  files: Record<string, GistFile | null>;
+  history?: { version: string; committed_at: string }[];
+}
+
+/**
+ * Backups in a private GitHub Gist, using the gist history as revisions
+ */
+export class GistBackupProvider implements BackupProvider {
+  readonly name = 'gist';
+
+  /** Gist holding the backups, set once the first backup created it */
+  gistId: string | null;
+
+  private token: string;
+  private apiUrl: string;
+  private filename: string;
+  private fetch: FetchFunction | undefined;
+
+  constructor(config: GistBackupConfig) {
+    this.token = config.token;
+    this.gistId = config.gistId || null;
+    this.apiUrl = (config.apiUrl ?? 'https://api.github.com').replace(/\/+$/, '');
+    this.filename = config.filename ?? 'ZeroOmega.json';
+    this.fetch = config.fetch;
+  }
+
+  async backup(content: string): Promise<BackupRevision> {
+    const files = { [this.filename]: { content } };
+    const gist = this.gistId
+      ? await this.request('PATCH', `/gists/${this.gistId}`, { files })
+      : await this.request('POST', '/gists', {
+          description: 'ZeroOmega options backup',
+          public: false,
+          files,
+        });
+
+    this.gistId = gist.id;
+    const [latest] = this.historyOf(gist);
+    if (!latest) {
+      throw new Error(`Gist ${gist.id} has no revisions`);
+    }
+    return latest;
+  }
+
+  async revisions(): Promise<BackupRevision[]> {
+    if (!this.gistId) return [];
+    return this.historyOf(await this.request('GET', `/gists/${this.gistId}`));
+  }
+
+  async restore(revision?: string): Promise<string> {
+    if (!this.gistId) {
+      throw new Error('No gist to restore from');
+    }
+
+    const path = revision ? `/gists/${this.gistId}/${revision}` : `/gists/${this.gistId}`;
+    const file = (await this.request('GET', path)).files[this.filename];
+    if (!file) {
+      throw new Error(`Gist ${this.gistId} has no file ${this.filename}`);
+    }
+
+    // Large files are only returned in part
+    if (file.truncated && file.raw_url) {
+      return fetchUrl(file.raw_url, { fetch: this.fetch });
+    }
+    return file.content ?? '';
+  }
+
+  private historyOf(gist: Gist): BackupRevision[] {
+    return (gist.history ?? []).map(({ version, committed_at }) => ({
+      id: version,
+      date: committed_at,
+    }));
+  }
+
+  /**
+   * Call the GitHub API
+   *
+   * @throws NetworkError or HttpError (and subclasses)
+   */
+  private async request(method: string, path: string, body?: unknown): Promise<Gist> {
+    const url = this.apiUrl + path;
+    const fetchFn = this.fetch ?? fetch;
+
+    let response: Response;
+    try {
+      response = await fetchFn(url, {
+        method,
+        headers: {
+          Accept: 'application/vnd.github+json',
+          Authorization: `Bearer ${this.token}`,
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+        cache: 'no-store',
+      });
+    } catch (e) {
+      throw new NetworkError(e instanceof Error ? e : new Error(String(e)));
+    }
+
+    if (!response.ok) {
+      throw httpErrorForStatus(url, response.status);
+    }
+
+    try {
+      return (await response.json()) as Gist;
+    } catch (e) {
+      throw new NetworkError(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+}
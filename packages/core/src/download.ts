@@ -0,0 +1,193 @@
+/**
+ * Download module for online profile content
+ *
+ * Fetches rule lists and PAC scripts referenced by profiles
+ * (RuleListProfile.sourceUrl, PacProfile.pacUrl) and maps failures
+ * to the network error classes.
+ */
+
+import { Profiles, type Profile, type OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+import {
+  NetworkError,
+  HttpError,
+  HttpNotFoundError,
+  HttpServerError,
+  ContentTypeRejectedError,
+} from './errors';
+
+/**
+ * Fetch implementation (defaults to global fetch)
+ */
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Options for fetching a URL
+ */
+export interface FetchUrlOptions {
+  /** Fetch implementation to use */
+  fetch?: FetchFunction;
+  /** Accepted content types, '!type' rejects a type and '*' accepts anything */
+  contentTypeHints?: string[];
+  /** Skip the HTTP cache */
+  bypassCache?: boolean;
+}
+
+/**
+ * Result of downloading a single profile
+ */
+export interface DownloadResult {
+  /** Updated copy of the profile */
+  profile: Profile;
+  /** Whether the downloaded content differs from the previous content */
+  changed: boolean;
+}
+
+/**
+ * Download results by profile name
+ */
+export type DownloadResults = Record<string, DownloadResult | Error>;
+
+/**
+ * Options for downloading profiles
+ */
+export interface DownloadProfilesOptions {
+  /** Only download these profiles (defaults to all downloadable profiles) */
+  names?: string[];
+  /** Fetch implementation to use */
+  fetch?: FetchFunction;
+  /** Skip the HTTP cache */
+  bypassCache?: boolean;
+}
+
+/**
+ * Check a response content type against content type hints
+ */
+function isContentTypeAccepted(contentType: string | null, hints: string[]): boolean {
+  const type = (contentType ?? '').split(';')[0]!.trim().toLowerCase();
+
+  for (const hint of hints) {
+    if (hint === '*') return true;
+    if (hint.charCodeAt(0) === '!'.charCodeAt(0)) {
+      if (type === hint.substring(1)) return false;
+    } else if (type === hint) {
+      return true;
+    }
+  }
+
+  return hints.length === 0;
+}
+
+/**
+ * Create an HTTP error for a response status
+ */
+export function httpErrorForStatus(url: string, status: number): HttpError {
+  const cause = Object.assign(new Error(`HTTP ${status} when fetching ${url}`), {
+    statusCode: status,
+  });
+
+  if (status === 404) return new HttpNotFoundError(cause);
+  if (status >= 500) return new HttpServerError(cause);
+  return new HttpError(cause);
+}
+
+/**
+ * Fetch text content from a URL
+ *
+ * @throws NetworkError, HttpError (and subclasses) or ContentTypeRejectedError
+ */
+export async function fetchUrl(url: string, options: FetchUrlOptions = {}): Promise<string> {
+  const fetchFn = options.fetch ?? fetch;
+  const init: RequestInit = options.bypassCache ? { cache: 'no-cache' } : {};
+
+  let response: Response;
+  try {
+    response = await fetchFn(url, init);
+  } catch (e) {
+    throw new NetworkError(e instanceof Error ? e : new Error(String(e)));
+  }
+
+  if (!response.ok) {
+    throw httpErrorForStatus(url, response.status);
+  }
+
+  if (
+    options.contentTypeHints &&
+    !isContentTypeAccepted(response.headers.get('content-type'), options.contentTypeHints)
+  ) {
+    throw new ContentTypeRejectedError(
+      `Content type ${response.headers.get('content-type')} rejected for ${url}`
+    );
+  }
+
+  try {
+    return await response.text();
+  } catch (e) {
+    throw new NetworkError(e instanceof Error ? e : new Error(String(e)));
+  }
+}
+
+/**
+ * Download a single profile's online content
+ *
+ * The given profile is not modified; an updated copy is returned.
+ */
+export async function downloadProfile(
+  profile: Profile,
+  options: Omit<DownloadProfilesOptions, 'names'> = {}
+): Promise<DownloadResult> {
+  const url = Profiles.updateUrl(profile);
+  if (!url) {
+    throw new Error(`Profile ${profile.name} has no download URL`);
+  }
+
+  const data = await fetchUrl(url, {
+    fetch: options.fetch,
+    bypassCache: options.bypassCache,
+    contentTypeHints: Profiles.updateContentTypeHints(profile),
+  });
+
+  // Keep the last known good script instead of caching an error page
+  if (profile.profileType === 'PacProfile' && !/\bFindProxyForURL\b/.test(data)) {
+    throw new ContentTypeRejectedError(`Content from ${url} is not a PAC script`);
+  }
+
+  const updated = JSON.parse(JSON.stringify(profile)) as Profile & { lastUpdate?: string };
+  const changed = Profiles.update(updated, data);
+  if (changed) {
+    Profiles.updateRevision(updated);
+  }
+  updated.lastUpdate = new Date().toISOString();
+
+  return { profile: updated, changed };
+}
+
+/**
+ * Download all (or the named) profiles that have a download URL
+ *
+ * Failures are reported per profile and never reject the whole batch.
+ */
+export async function downloadProfiles(
+  options: OmegaOptions,
+  config: DownloadProfilesOptions = {}
+): Promise<DownloadResults> {
+  const profiles: Profile[] = [];
+  Profiles.each(options as unknown as Record<string, Profile>, (_key, profile) => {
+    if (config.names && !config.names.includes(profile.name)) return;
+    if (Profiles.updateUrl(profile)) {
+      profiles.push(profile);
+    }
+  });
+
+  const results: DownloadResults = {};
+  await Promise.all(
+    profiles.map(async (profile) => {
+      try {
+        results[profile.name] = await downloadProfile(profile, config);
+      } catch (e) {
+        results[profile.name] = e instanceof Error ? e : new Error(String(e));
+      }
+    })
+  );
+
+  return results;
+}
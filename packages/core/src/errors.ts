@@ -81,6 +81,19 @@ export class NoOptionsError extends Error {
   }
 }
 
+/**
+ * Options are from a newer, unknown schema version
+ */
+export class SchemaVersionError extends Error {
+  version: number;
+
+  constructor(version: number) {
+    super(`Options schema version ${version} is newer than supported`);
+    this.name = 'SchemaVersionError';
+    this.version = version;
+  }
+}
+
 /**
  * Storage rate limit exceeded
  */
@@ -29,6 +29,7 @@ export {
   ContentTypeRejectedError,
   ProfileNotExistError,
   NoOptionsError,
+  SchemaVersionError,
   RateLimitExceededError,
   QuotaExceededError,
   StorageUnavailableError,
@@ -38,5 +39,43 @@ export {
 export { Storage, type WriteOperations, type WatchCallback } from './storage';
 export { BrowserStorage } from './browser-storage';
 
+// Downloads
+export {
+  fetchUrl,
+  downloadProfile,
+  downloadProfiles,
+  type FetchFunction,
+  type FetchUrlOptions,
+  type DownloadResult,
+  type DownloadResults,
+  type DownloadProfilesOptions,
+} from './download';
+
+// Backups
+export {
+  GistBackupProvider,
+  type BackupProvider,
+  type BackupRevision,
+  type GistBackupConfig,
+} from './backup';
+
+// Schema migrations
+export {
+  SCHEMA_VERSION,
+  migrations,
+  migrateOptions,
+  schemaVersionOf,
+  type Migration,
+  type MigrationResult,
+} from './migrations';
+
 // Options
-export { Options, transformValueForSync } from './options';
+export { Options, type OptionsConfig, type SyncState } from './options';
+
+// Syncing
+export {
+  OptionsSync,
+  transformValueForSync,
+  SYNC_QUOTA_BYTES_PER_ITEM,
+  type OptionsSyncConfig,
+} from './sync';
@@ -0,0 +1,219 @@
+/**
+ * Options schema migrations
+ *
+ * Upgrades options of older SwitchyOmega/ZeroOmega versions to the current schema,
+ * one version at a time:
+ * - 0: settings were stored without the - prefix
+ * - 1: conditions may use old shapes (weekday ranges, bypass strings, CIDR IP patterns),
+ *      and the builtin auto_detect profile was implicit
+ * - 2: current schema
+ *
+ * Older versions also stored the version as schemaVersion instead of -schemaVersion.
+ */
+
+import { Profiles, type OmegaOptions, type Profile } from '@dev-zapi/switchyalpha-pac';
+import { NoOptionsError, SchemaVersionError } from './errors';
+
+/**
+ * Current options schema version
+ */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * A step upgrading options to the next schema version
+ */
+export interface Migration {
+  /** Schema version after this step */
+  version: number;
+  description: string;
+  /** Upgrade the options in place */
+  migrate(options: Record<string, unknown>): void;
+}
+
+/**
+ * Result of migrating options
+ */
+export interface MigrationResult {
+  options: OmegaOptions;
+  /** Schema version of the given options */
+  from: number;
+  /** Schema version of the migrated options */
+  to: number;
+  /** Changed options, undefined for removed ones */
+  changes: Record<string, unknown>;
+}
+
+/**
+ * Settings of schema 0, stored without the - prefix
+ */
+const LEGACY_SETTINGS = [
+  'startupProfileName',
+  'quickSwitchProfiles',
+  'refreshOnProfileChange',
+  'enableQuickSwitch',
+  'revertProxyChanges',
+  'showInspectMenu',
+  'downloadInterval',
+  'confirmDeletion',
+  'addConditionsToBottom',
+  'showExternalProfile',
+  'showConditionTypes',
+];
+
+/** Key of the auto_detect profile, builtin before schema 2 */
+const AUTO_DETECT_KEY = '+auto_detect';
+
+/** Day letters of WeekdayCondition.days, '-' marks a day off */
+const WEEKDAYS = 'SMTWTFS';
+
+type Json = Record<string, unknown>;
+
+/**
+ * Upgrade a condition of schema 1
+ */
+function upgradeCondition(condition: unknown): unknown {
+  // Fixed profile bypass lists used plain patterns
+  if (typeof condition === 'string') {
+    return { conditionType: 'BypassCondition', pattern: condition };
+  }
+  if (typeof condition !== 'object' || condition === null) return condition;
+
+  const c = condition as Json;
+  switch (c['conditionType']) {
+    case 'WeekdayCondition': {
+      if (c['days'] !== undefined) return c;
+      const { startDay = 0, endDay = 6, ...rest } = c as Json & {
+        startDay?: number;
+        endDay?: number;
+      };
+      let days = '';
+      for (let day = 0; day < 7; day++) {
+        days += startDay <= day && day <= endDay ? WEEKDAYS[day] : '-';
+      }
+      return { ...rest, days };
+    }
+    case 'IpCondition': {
+      // The prefix length was part of the IP, e.g. 192.168.0.0/16
+      const ip = c['ip'];
+      if (c['prefixLength'] !== undefined || typeof ip !== 'string') return c;
+      const slash = ip.lastIndexOf('/');
+      if (slash < 0) return c;
+      return { ...c, ip: ip.substring(0, slash), prefixLength: Number(ip.substring(slash + 1)) };
+    }
+    default:
+      return c;
+  }
+}
+
+/**
+ * Migration steps in order
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Prefix settings with -',
+    migrate(options) {
+      for (const key of LEGACY_SETTINGS) {
+        if (key in options) {
+          options['-' + key] ??= options[key];
+          delete options[key];
+        }
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Upgrade old condition shapes and add the auto_detect profile',
+    migrate(options) {
+      for (const [key, value] of Object.entries(options)) {
+        if (!key.startsWith('+') || typeof value !== 'object' || value === null) continue;
+
+        const profile = value as Json;
+        if (Array.isArray(profile['rules'])) {
+          profile['rules'] = profile['rules'].map((rule: Json) => ({
+            ...rule,
+            condition: upgradeCondition(rule['condition']),
+          }));
+        }
+        if (Array.isArray(profile['bypassList'])) {
+          profile['bypassList'] = profile['bypassList'].map(upgradeCondition);
+        }
+      }
+
+      // auto_detect became a regular PAC profile, added where it is still referenced
+      if (AUTO_DETECT_KEY in options) return;
+      let autoDetectUsed = false;
+      Profiles.each(options as unknown as Record<string, Profile>, (_key, profile) => {
+        autoDetectUsed ||= AUTO_DETECT_KEY in Profiles.directReferenceSet(profile);
+      });
+      if (autoDetectUsed) {
+        options[AUTO_DETECT_KEY] = Profiles.create(
+          { name: 'auto_detect', pacUrl: 'http://wpad/wpad.dat', color: '#00cccc' },
+          'PacProfile'
+        );
+      }
+    },
+  },
+];
+
+/**
+ * Get the schema version of stored or imported options
+ *
+ * @returns The version, or null if the object does not look like options at all
+ */
+export function schemaVersionOf(options: Record<string, unknown>): number | null {
+  const version = options['-schemaVersion'] ?? options['schemaVersion'];
+  if (typeof version === 'number') return version;
+
+  // Schema 0 had no version, but profiles or unprefixed settings
+  const keys = Object.keys(options);
+  if (keys.some((key) => key.startsWith('+') || LEGACY_SETTINGS.includes(key))) {
+    return 0;
+  }
+  return null;
+}
+
+/**
+ * Upgrade options to the current schema version
+ *
+ * Only options are kept, i.e. settings (-) and profiles (+).
+ * The given object is not modified.
+ *
+ * @throws NoOptionsError if the object does not contain options
+ * @throws SchemaVersionError if the options are from a newer version
+ */
+export function migrateOptions(input: Record<string, unknown>): MigrationResult {
+  const from = schemaVersionOf(input);
+  if (from === null) {
+    throw new NoOptionsError();
+  }
+  if (from > SCHEMA_VERSION) {
+    throw new SchemaVersionError(from);
+  }
+
+  const options = JSON.parse(JSON.stringify(input)) as Json;
+  delete options['schemaVersion'];
+  for (const migration of migrations) {
+    if (migration.version > from) {
+      migration.migrate(options);
+    }
+  }
+  options['-schemaVersion'] = SCHEMA_VERSION;
+
+  // Drop anything but options, e.g. state stored in the same area
+  for (const key of Object.keys(options)) {
+    if (key[0] !== '-' && key[0] !== '+') delete options[key];
+  }
+
+  // Keys that are not options are left alone rather than removed
+  const migrated = (key: string) =>
+    key in options || key === 'schemaVersion' || LEGACY_SETTINGS.includes(key);
+  const changes: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(input), ...Object.keys(options)])) {
+    if (migrated(key) && JSON.stringify(input[key]) !== JSON.stringify(options[key])) {
+      changes[key] = options[key];
+    }
+  }
+
+  return { options: options as unknown as OmegaOptions, from, to: SCHEMA_VERSION, changes };
+}
@@ -5,15 +5,20 @@
  * This is a simplified TypeScript port of the original Options class.
  */
 
-import { Profiles, type Profile, type OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+import {
+  Profiles,
+  type Condition,
+  type Profile,
+  type OmegaOptions,
+  type VirtualProfile,
+} from '@dev-zapi/switchyalpha-pac';
 import { Storage } from './storage';
 import { Log } from './log';
-import { ProfileNotExistError, NoOptionsError } from './errors';
-
-/**
- * Keys that should be excluded when syncing profiles
- */
-const SYNC_EXCLUDED_KEYS = ['lastUpdate', 'ruleList', 'pacScript', 'sha256'];
+import { ProfileNotExistError, NoOptionsError, SchemaVersionError } from './errors';
+import { downloadProfiles, type DownloadProfilesOptions, type DownloadResults } from './download';
+import { OptionsSync, transformValueForSync } from './sync';
+import type { BackupProvider, BackupRevision } from './backup';
+import { migrateOptions, SCHEMA_VERSION } from './migrations';
 
 /**
  * Generate SHA-256 hash of text
@@ -27,38 +32,39 @@ async function generateSHA256(text: string): Promise<string> {
 }
 
 /**
- * Transform a value for syncing (strip downloadable content)
+ * Check if a storage key holds an option, i.e. a setting (-) or a profile (+)
+ *
+ * Other keys may be stored in the same area, e.g. the state or UI preferences.
  */
-export function transformValueForSync(value: unknown, key: string): unknown {
-  if (key === '-customCss') {
-    return undefined;
-  }
-
-  if (key.startsWith('+') && typeof value === 'object' && value !== null) {
-    const profile = value as Profile;
-    if (Profiles.updateUrl?.(profile)) {
-      const cleaned: Record<string, unknown> = {};
-      for (const [k, v] of Object.entries(profile)) {
-        if (!SYNC_EXCLUDED_KEYS.includes(k)) {
-          cleaned[k] = v;
-        }
-      }
-      return cleaned;
-    }
-  }
-
-  return value;
+function isOptionKey(key: string): boolean {
+  return key[0] === '-' || key[0] === '+';
 }
 
+/**
+ * Syncing state of the options
+ * - unsupported: no remote storage is available
+ * - pristine: syncing is off and there is no remote copy
+ * - conflict: syncing is off, but another device uploaded a remote copy
+ * - sync: options are synced
+ */
+export type SyncState = 'unsupported' | 'pristine' | 'conflict' | 'sync';
+
 /**
  * Options configuration
  */
 export interface OptionsConfig {
   storage?: Storage;
   state?: Storage;
+  /** Remote storage to sync options with, if supported */
+  sync?: OptionsSync;
   log?: typeof Log;
 }
 
+/**
+ * Callback for options changed elsewhere
+ */
+type OptionsChangedCallback = (changes: Partial<OmegaOptions>) => void;
+
 /**
  * Options manager class
  */
@@ -66,12 +72,18 @@ export class Options {
   protected _options: OmegaOptions = {} as OmegaOptions;
   protected _storage: Storage;
   protected _state: Storage;
+  protected _sync: OptionsSync | null;
   protected log: typeof Log;
 
   protected _currentProfileName: string | null = null;
   protected _watchingProfiles: Record<string, boolean> = {};
   protected _isSystem = false;
 
+  protected _syncing = false;
+  protected _syncError: Error | null = null;
+  private _stopWatchingSync: (() => void) | null = null;
+  private _optionsWatchers = new Set<OptionsChangedCallback>();
+
   readonly fallbackProfileName = 'system';
   readonly debugStr = 'Options';
 
@@ -81,7 +93,17 @@ export class Options {
   constructor(config: OptionsConfig = {}) {
     this._storage = config.storage ?? new Storage();
     this._state = config.state ?? new Storage();
+    this._sync = config.sync ?? null;
     this.log = config.log ?? Log;
+
+    if (this._sync) {
+      this._sync.onError = (error) => {
+        this._syncError = error;
+      };
+      this._sync.onPendingChange = (keys) => {
+        this.syncPendingChanged(keys);
+      };
+    }
   }
 
   /**
@@ -89,7 +111,7 @@ export class Options {
    */
   getDefaultOptions(): OmegaOptions {
     const options: OmegaOptions = {
-      '-schemaVersion': 2,
+      '-schemaVersion': SCHEMA_VERSION,
       '-startupProfileName': '',
       '-quickSwitchProfiles': [],
       '-refreshOnProfileChange': false,
@@ -97,6 +119,7 @@ export class Options {
       '-revertProxyChanges': false,
       '-showInspectMenu': true,
       '-downloadInterval': 1440, // 24 hours in minutes
+      '-pacDownloadInterval': 60,
     } as OmegaOptions;
 
     // Add default proxy profile
@@ -136,7 +159,7 @@ export class Options {
       }
     }
 
-    await this._storage.set(changes);
+    await this.write(changes);
   }
 
   /**
@@ -164,7 +187,7 @@ export class Options {
     const key = Profiles.nameAsKey(profile.name);
     Profiles.updateRevision(profile);
     (this._options as Record<string, unknown>)[key] = profile;
-    await this._storage.set({ [key]: profile });
+    await this.write({ [key]: profile });
     return profile;
   }
 
@@ -174,7 +197,7 @@ export class Options {
   async removeProfile(name: string): Promise<void> {
     const key = Profiles.nameAsKey(name);
     delete (this._options as Record<string, unknown>)[key];
-    await this._storage.remove(key);
+    await this.write({ [key]: undefined });
   }
 
   /**
@@ -194,10 +217,11 @@ export class Options {
     Profiles.updateRevision(profile);
 
     // Update references in other profiles
+    const changes: Record<string, unknown> = { [oldKey]: undefined, [newKey]: profile };
     for (const p of this.profiles()) {
       if (Profiles.replaceRef(p, oldName, newName)) {
         Profiles.updateRevision(p);
-        await this._storage.set({ [Profiles.nameAsKey(p.name)]: p });
+        changes[Profiles.nameAsKey(p.name)] = p;
       }
     }
 
@@ -206,8 +230,7 @@ export class Options {
     (this._options as Record<string, unknown>)[newKey] = profile;
 
     // Persist
-    await this._storage.remove(oldKey);
-    await this._storage.set({ [newKey]: profile });
+    await this.write(changes);
 
     // Update current profile if needed
     if (this._currentProfileName === oldName) {
@@ -218,6 +241,98 @@ export class Options {
     return profile;
   }
 
+  /**
+   * Add a rule for a condition to a SwitchProfile (defaults to the current profile)
+   *
+   * The rule is added first, replacing any rule with the same condition.
+   */
+  async addCondition(
+    condition: Condition,
+    profileName: string,
+    switchProfileName: string = this.getCurrentProfileName()
+  ): Promise<Profile> {
+    return this.addConditions([condition], profileName, switchProfileName);
+  }
+
+  /**
+   * Add rules for several conditions to a SwitchProfile at once
+   */
+  async addConditions(
+    conditions: Condition[],
+    profileName: string,
+    switchProfileName: string = this.getCurrentProfileName()
+  ): Promise<Profile> {
+    const profile = this.profile(switchProfileName);
+    if (!profile) {
+      throw new ProfileNotExistError(switchProfileName);
+    }
+    if (!Profiles.byName(profileName, this._options as Record<string, Profile>)) {
+      throw new ProfileNotExistError(profileName);
+    }
+    for (const condition of conditions) {
+      if (!Profiles.addCondition(profile, condition, profileName)) {
+        throw new Error(`Cannot add condition to profile ${profile.name} (${profile.profileType})`);
+      }
+    }
+
+    Profiles.updateRevision(profile);
+    await this.write({ [Profiles.nameAsKey(profile.name)]: profile });
+    return profile;
+  }
+
+  /**
+   * Point a virtual profile to another profile
+   *
+   * @throws ProfileNotExistError if either profile does not exist
+   */
+  async setVirtualTarget(name: string, targetName: string): Promise<VirtualProfile> {
+    const profile = this.profile(name);
+    if (!profile) {
+      throw new ProfileNotExistError(name);
+    }
+    if (profile.profileType !== 'VirtualProfile') {
+      throw new Error(`Profile ${name} is not a virtual profile`);
+    }
+    if (!this.profile(targetName)) {
+      throw new ProfileNotExistError(targetName);
+    }
+    // The virtual profile cannot act as a profile that uses it
+    const references = Profiles.allReferenceSet(
+      targetName,
+      this._options as Record<string, Profile>
+    );
+    if (Profiles.nameAsKey(name) in references) {
+      throw new Error(`Profile ${targetName} cannot be the target of ${name}`);
+    }
+
+    profile.defaultProfileName = targetName;
+    Profiles.updateRevision(profile);
+    await this.write({ [Profiles.nameAsKey(profile.name)]: profile });
+    return profile;
+  }
+
+  /**
+   * Download online content (rule lists, PAC scripts) for profiles
+   *
+   * Successfully downloaded profiles are saved; failures are returned as errors.
+   */
+  async updateProfiles(config: DownloadProfilesOptions = {}): Promise<DownloadResults> {
+    const results = await downloadProfiles(this._options, config);
+
+    const changes: Record<string, Profile> = {};
+    for (const result of Object.values(results)) {
+      if (result instanceof Error) continue;
+      changes[Profiles.nameAsKey(result.profile.name)] = result.profile;
+    }
+
+    if (Object.keys(changes).length > 0) {
+      Object.assign(this._options, changes);
+      await this.write(changes);
+    }
+
+    return results;
+  }
+
   /**
    * Get current profile name
    */
@@ -232,6 +347,19 @@ export class Options {
     return this.profile(this.getCurrentProfileName());
   }
 
+  /**
+   * Check if the current profile is or references a profile
+   *
+   * Changes to such a profile require the current profile to be applied again.
+   */
+  isProfileInUse(name: string): boolean {
+    const references = Profiles.allReferenceSet(
+      this.getCurrentProfileName(),
+      this._options as Record<string, Profile>
+    );
+    return Profiles.nameAsKey(name) in references;
+  }
+
   /**
    * Apply a profile (make it the current profile)
    */
@@ -262,12 +390,19 @@ export class Options {
       throw new NoOptionsError();
     }
 
-    // Validate schema
-    if (!options['-schemaVersion']) {
-      throw new NoOptionsError();
+    try {
+      const { options: migrated, from, to, changes } = migrateOptions(options);
+      if (from !== to) {
+        this.log.log(`Upgrading options from schema ${from} to ${to}`);
+        await this._storage.apply({ changes });
+      }
+      this._options = migrated;
+    } catch (e) {
+      if (!(e instanceof SchemaVersionError)) throw e;
+      // Keep options of a newer version as they are, instead of losing them
+      this.log.error(`${e.message}, some settings may not work`);
+      this._options = options as OmegaOptions;
     }
-
-    this._options = options as OmegaOptions;
     return this._options;
   }
 
@@ -287,13 +422,25 @@ export class Options {
         throw err;
       })
       .then(async (options) => {
-        // Load current profile from state
+        // Load current profile from state, unless a startup profile is configured
         const state = await this._state.get({
           currentProfileName: this.fallbackProfileName,
           isSystemProfile: false,
+          syncEnabled: false,
         });
 
-        const profileName = (state['currentProfileName'] as string) || this.fallbackProfileName;
+        // Get the options changed on other devices before applying a profile
+        if (state['syncEnabled'] && this._sync) {
+          await this.startSync().catch((e) => {
+            this.log.error('Failed to sync options:', e);
+          });
+          options = this._options;
+        }
+
+        const profileName =
+          options['-startupProfileName'] ||
+          (state['currentProfileName'] as string) ||
+          this.fallbackProfileName;
 
         try {
           await this.applyProfile(profileName);
@@ -307,6 +454,258 @@ export class Options {
     return this.ready;
   }
 
+  /**
+   * Watch the storage for options changed elsewhere, e.g. by another page or sync
+   *
+   * Changed options are merged into the loaded options before the callback is called.
+   * Writes of this instance are ignored, as the stored values equal the loaded ones.
+   *
+   * @returns Function to stop watching
+   */
+  watchOptions(callback: OptionsChangedCallback): () => void {
+    this._optionsWatchers.add(callback);
+    const stopWatching = this._storage.watch(null, (changes) => {
+      const changed = this.mergeOptions(changes);
+      if (changed) {
+        this.log.log('Options changed in storage:', Object.keys(changed));
+        callback(changed);
+      }
+    });
+
+    return () => {
+      this._optionsWatchers.delete(callback);
+      stopWatching();
+    };
+  }
+
+  /**
+   * Merge changed options into the loaded options
+   *
+   * @returns The options that actually changed, or null if none did
+   */
+  private mergeOptions(changes: Record<string, unknown>): Partial<OmegaOptions> | null {
+    const options = this._options as Record<string, unknown>;
+    const changed: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (!isOptionKey(key)) continue;
+      if (JSON.stringify(value) === JSON.stringify(options[key])) continue;
+
+      if (value === undefined) {
+        delete options[key];
+      } else {
+        options[key] = value;
+      }
+      changed[key] = value;
+    }
+
+    return Object.keys(changed).length > 0 ? (changed as Partial<OmegaOptions>) : null;
+  }
+
+  /**
+   * Write changed options to storage, and push them if syncing
+   *
+   * Undefined values remove the option.
+   */
+  private async write(changes: Record<string, unknown>): Promise<void> {
+    await this._storage.apply({ changes });
+    if (this._syncing) {
+      this._sync!.requestPush(changes);
+    }
+  }
+
+  /**
+   * Get the syncing state, and the last error if pushing options failed
+   */
+  async getSyncState(): Promise<{ state: SyncState; error: Error | null }> {
+    let state: SyncState;
+    if (!this._sync) {
+      state = 'unsupported';
+    } else if (this._syncing) {
+      state = 'sync';
+    } else {
+      const remote = await this._sync.pull();
+      state = remote['-schemaVersion'] ? 'conflict' : 'pristine';
+    }
+    return { state, error: this._syncError };
+  }
+
+  /**
+   * Start syncing options
+   *
+   * If forced, the remote copy replaces the local options. Otherwise both are merged by
+   * profile revision, and local options missing remotely are uploaded.
+   */
+  async enableSync({ force = false }: { force?: boolean } = {}): Promise<void> {
+    if (!this._sync) {
+      throw new Error('Options syncing is not supported');
+    }
+
+    const remote = await this._sync.pull();
+    if (force && remote['-schemaVersion']) {
+      const local = this._options as Record<string, unknown>;
+      const options: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(remote)) {
+        if (isOptionKey(key)) options[key] = OptionsSync.merge(key, value, local[key], true);
+      }
+      // Settings that are never synced stay as they are
+      for (const [key, value] of Object.entries(local)) {
+        if (!(key in options) && transformValueForSync(value, key) === undefined) {
+          options[key] = value;
+        }
+      }
+
+      const previous = { ...local };
+      await this.resetOptions(options as OmegaOptions);
+      const changed: Record<string, unknown> = {};
+      for (const key of new Set([...Object.keys(previous), ...Object.keys(options)])) {
+        if (JSON.stringify(previous[key]) !== JSON.stringify(options[key])) {
+          changed[key] = options[key];
+        }
+      }
+      this.optionsPulled(changed);
+    } else {
+      // Upload the options missing in the remote copy, e.g. all of them the first time
+      const missing = Object.entries(this._options).filter(([key]) => !(key in remote));
+      await this._sync.push(Object.fromEntries(missing));
+    }
+
+    this._syncError = null;
+    await this._state.set({ syncEnabled: true });
+    await this.startSync();
+  }
+
+  /**
+   * Stop syncing options, keeping the remote copy
+   */
+  async disableSync(): Promise<void> {
+    this._syncing = false;
+    this._stopWatchingSync?.();
+    this._stopWatchingSync = null;
+    this._sync?.cancel();
+    await this._state.set({ syncEnabled: false });
+  }
+
+  /**
+   * Remove the remote copy of the options, disabling syncing
+   */
+  async resetSync(): Promise<void> {
+    await this.disableSync();
+    this._syncError = null;
+    await this._sync?.clear();
+  }
+
+  /**
+   * Push options waiting to be synced now, e.g. after the write rate limit was exceeded
+   */
+  async flushSync(): Promise<void> {
+    if (this._syncing) {
+      await this._sync!.flush();
+    }
+  }
+
+  /**
+   * Called when the options waiting to be synced change
+   *
+   * Their keys are kept in the state, so that they are pushed by the next init() if this
+   * instance stops before pushing them. Platforms may also schedule flushSync().
+   */
+  protected syncPendingChanged(keys: string[]): void {
+    this._state.set({ syncPending: keys }).catch((e) => {
+      this.log.error('Failed to save pending synced options:', e);
+    });
+  }
+
+  /**
+   * Pull the remote options and follow changes made on other devices
+   */
+  private async startSync(): Promise<void> {
+    const sync = this._sync!;
+    this._syncing = true;
+    this._stopWatchingSync?.();
+    this._stopWatchingSync = sync.watch((changes) => {
+      this.pullSync(changes).catch((e) => {
+        this.log.error('Failed to merge synced options:', e);
+      });
+    });
+
+    // Push what a previous instance could not, before remote options replace it
+    const state = await this._state.get({ syncPending: [] });
+    const pendingKeys = state['syncPending'] as string[];
+    if (pendingKeys.length > 0) {
+      const local = this._options as Record<string, unknown>;
+      sync.requestPush(Object.fromEntries(pendingKeys.map((key) => [key, local[key]])));
+      await sync.flush();
+    }
+
+    await this.pullSync(await sync.pull());
+  }
+
+  /**
+   * Merge remote options into the local ones
+   *
+   * Local profiles newer than the remote ones are pushed back.
+   */
+  private async pullSync(remote: Record<string, unknown>): Promise<void> {
+    const local = this._options as Record<string, unknown>;
+    const merged: Record<string, unknown> = {};
+    const newer: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(remote)) {
+      if (!isOptionKey(key)) continue;
+      merged[key] = OptionsSync.merge(key, value, local[key]);
+      if (merged[key] === local[key] && local[key] !== undefined) {
+        newer[key] = local[key];
+      }
+    }
+
+    const changed = this.mergeOptions(merged);
+    if (changed) {
+      this.log.log('Options changed on another device:', Object.keys(changed));
+      await this._storage.apply({ changes: changed as Record<string, unknown> });
+      this.optionsPulled(changed);
+    }
+    if (Object.keys(newer).length > 0) {
+      this._sync!.requestPush(newer);
+    }
+  }
+
+  /**
+   * Notify watchers of pulled options, and download the content stripped for syncing
+   */
+  private optionsPulled(changed: Record<string, unknown>): void {
+    if (Object.keys(changed).length === 0) return;
+    for (const callback of this._optionsWatchers) {
+      callback(changed as Partial<OmegaOptions>);
+    }
+
+    const names: string[] = [];
+    for (const value of Object.values(changed)) {
+      const profile = value as (Profile & { lastUpdate?: string }) | undefined;
+      if (profile?.name && Profiles.updateUrl(profile) && !profile.lastUpdate) {
+        names.push(profile.name);
+      }
+    }
+    if (names.length === 0) return;
+
+    this.updateProfiles({ names })
+      .then((results) => {
+        const downloaded: Record<string, unknown> = {};
+        for (const result of Object.values(results)) {
+          if (result instanceof Error) continue;
+          downloaded[Profiles.nameAsKey(result.profile.name)] = result.profile;
+        }
+        if (Object.keys(downloaded).length > 0) {
+          for (const callback of this._optionsWatchers) {
+            callback(downloaded as Partial<OmegaOptions>);
+          }
+        }
+      })
+      .catch((e) => {
+        this.log.error('Failed to download synced profiles:', e);
+      });
+  }
+
   /**
    * Export options as JSON string
    */
@@ -318,13 +717,49 @@ export class Options {
    * Import options from JSON string
    */
   async importOptions(json: string): Promise<OmegaOptions> {
-    const options = JSON.parse(json) as OmegaOptions;
+    return this.resetOptions(JSON.parse(json) as OmegaOptions);
+  }
 
-    // Clear and replace
-    await this._storage.remove(null);
-    await this._storage.set(options);
+  /**
+   * Store a backup of the options with a backup provider
+   */
+  async backupOptions(provider: BackupProvider): Promise<BackupRevision> {
+    return provider.backup(this.exportOptions());
+  }
 
+  /**
+   * Restore the options from a backup revision (defaults to the latest one)
+   */
+  async restoreOptions(provider: BackupProvider, revision?: string): Promise<OmegaOptions> {
+    return this.importOptions(await provider.restore(revision));
+  }
+
+  /**
+   * Replace all options, with the defaults if none are given
+   *
+   * Options of older versions are upgraded first. Options missing in the new options
+   * are removed from storage.
+   *
+   * @throws NoOptionsError for objects without options
+   * @throws SchemaVersionError for options of a newer version
+   */
+  async resetOptions(options: OmegaOptions = this.getDefaultOptions()): Promise<OmegaOptions> {
+    const { options: migrated, from, to } = migrateOptions(options as Record<string, unknown>);
+    if (from !== to) {
+      this.log.log(`Upgrading imported options from schema ${from} to ${to}`);
+    }
+    options = migrated;
+
+    const stored = await this._storage.get(null);
+    const removed = Object.keys(stored).filter((key) => isOptionKey(key) && !(key in options));
+
+    // Replace the loaded options first, so that watchOptions() ignores these writes
     this._options = options;
+    await this.write({
+      ...Object.fromEntries(removed.map((key) => [key, undefined])),
+      ...options,
+    });
+
     return options;
   }
 
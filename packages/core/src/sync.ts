@@ -0,0 +1,412 @@
+/**
+ * Options syncing
+ *
+ * Mirrors options to a remote storage shared between browsers, e.g. chrome.storage.sync:
+ * - Downloaded content (rule lists, PAC scripts) is stripped before pushing
+ * - Values exceeding the per-item quota are split into chunks
+ * - Remote profiles are merged by revision, so the latest edit wins
+ * - Keys waiting to be pushed are reported, so they can be pushed after a restart
+ */
+
+import { Profiles, Revision, type Profile } from '@dev-zapi/switchyalpha-pac';
+import { Storage } from './storage';
+import { Log } from './log';
+import { RateLimitExceededError } from './errors';
+
+/**
+ * Keys that should be excluded when syncing profiles
+ */
+const SYNC_EXCLUDED_KEYS = ['lastUpdate', 'ruleList', 'pacScript', 'sha256'];
+
+/**
+ * Per-item quota of chrome.storage.sync in bytes, counting the key and the JSON value
+ */
+export const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+
+/**
+ * Property of the item stored in place of a value that was split into chunks
+ */
+const CHUNKS_PROP = '@chunks';
+
+/**
+ * Transform a value for syncing (strip downloadable content)
+ */
+export function transformValueForSync(value: unknown, key: string): unknown {
+  if (key === '-customCss') {
+    return undefined;
+  }
+
+  if (key.startsWith('+') && typeof value === 'object' && value !== null) {
+    const profile = value as Profile;
+    if (Profiles.updateUrl?.(profile)) {
+      const cleaned: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(profile)) {
+        if (!SYNC_EXCLUDED_KEYS.includes(k)) {
+          cleaned[k] = v;
+        }
+      }
+      return cleaned;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Key of a chunk, e.g. #0+auto switch
+ *
+ * Option keys start with - or +, so chunk keys never collide with them.
+ */
+function chunkKey(key: string, index: number): string {
+  return `#${index}${key}`;
+}
+
+/**
+ * Get the option key of a chunk key, null for other keys
+ */
+function chunkOwner(key: string): string | null {
+  const match = /^#\d+([-+][\s\S]*)$/.exec(key);
+  return match ? match[1]! : null;
+}
+
+/**
+ * Get the number of chunks a stored item refers to, 0 for plain values
+ */
+function chunkCount(item: unknown): number {
+  if (typeof item !== 'object' || item === null) return 0;
+  const count = (item as Record<string, unknown>)[CHUNKS_PROP];
+  return typeof count === 'number' ? count : 0;
+}
+
+/**
+ * Size of an item as counted by the storage quota
+ */
+function itemBytes(key: string, value: unknown): number {
+  const encoder = new TextEncoder();
+  return encoder.encode(key).length + encoder.encode(JSON.stringify(value)).length;
+}
+
+/**
+ * Copy downloaded content of a local profile to a remote one with the same download URL
+ */
+function withLocalContent(remote: Profile, local: unknown): Profile {
+  if (typeof local !== 'object' || local === null) return remote;
+
+  const localProfile = local as Profile;
+  const url = Profiles.updateUrl(remote);
+  if (!url || Profiles.updateUrl(localProfile) !== url) return remote;
+
+  const merged: Record<string, unknown> = { ...remote };
+  for (const key of SYNC_EXCLUDED_KEYS) {
+    const value = (localProfile as unknown as Record<string, unknown>)[key];
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged as unknown as Profile;
+}
+
+/**
+ * Options sync configuration
+ */
+export interface OptionsSyncConfig {
+  /** Maximum size of a stored item, including its key */
+  quotaBytesPerItem?: number;
+  /** Time to collect changes before pushing them, in milliseconds */
+  pushDelay?: number;
+  /** Time to wait after the write rate limit was exceeded, in milliseconds */
+  retryDelay?: number;
+  log?: typeof Log;
+}
+
+/**
+ * Syncs options with a remote storage
+ */
+export class OptionsSync {
+  readonly remote: Storage;
+
+  /** Called when pushing changes fails, except for rate limits which are retried */
+  onError: ((error: Error) => void) | null = null;
+
+  /**
+   * Called with the keys still waiting to be pushed whenever they change
+   *
+   * Lets the owner keep them across restarts, as the retry timer does not survive them.
+   */
+  onPendingChange: ((keys: string[]) => void) | null = null;
+
+  private quotaBytesPerItem: number;
+  private pushDelay: number;
+  private retryDelay: number;
+  private log: typeof Log;
+
+  /** JSON of the values known to be stored remotely, to skip redundant writes */
+  private synced: Map<string, string> | null = null;
+  private pending: Record<string, unknown> = {};
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private pushing: Promise<void> = Promise.resolve();
+
+  constructor(remote: Storage, config: OptionsSyncConfig = {}) {
+    this.remote = remote;
+    this.quotaBytesPerItem = config.quotaBytesPerItem ?? SYNC_QUOTA_BYTES_PER_ITEM;
+    this.pushDelay = config.pushDelay ?? 1000;
+    this.retryDelay = config.retryDelay ?? 60000;
+    this.log = config.log ?? Log;
+  }
+
+  /**
+   * Merge a remote value into a local one
+   *
+   * Profiles keep the version with the newer revision, and the downloaded content of
+   * the local one. Remote settings and removals replace local ones.
+   *
+   * @param force - Take remote profiles even if the local ones are newer
+   */
+  static merge(key: string, remoteValue: unknown, localValue: unknown, force = false): unknown {
+    if (remoteValue === undefined) return undefined;
+    if (!key.startsWith('+') || typeof remoteValue !== 'object' || remoteValue === null) {
+      return remoteValue;
+    }
+
+    const remote = remoteValue as Profile;
+    const local = localValue as Profile | undefined;
+    if (!force && local && Revision.compare(local.revision, remote.revision) >= 0) {
+      return localValue;
+    }
+    return withLocalContent(remote, localValue);
+  }
+
+  /**
+   * Split a value into storage items, using chunks if it exceeds the per-item quota
+   */
+  toItems(key: string, value: unknown): Record<string, unknown> {
+    if (itemBytes(key, value) <= this.quotaBytesPerItem) {
+      return { [key]: value };
+    }
+
+    const json = JSON.stringify(value);
+    const items: Record<string, unknown> = {};
+    let index = 0;
+    for (let start = 0; start < json.length; index++) {
+      const itemKey = chunkKey(key, index);
+      // Escaping and multi-byte characters may take more space than the estimate
+      let end = Math.min(json.length, start + this.quotaBytesPerItem - itemKey.length - 2);
+      while (
+        end > start + 1 &&
+        itemBytes(itemKey, json.slice(start, end)) > this.quotaBytesPerItem
+      ) {
+        end = start + Math.floor((end - start) * 0.9);
+      }
+      items[itemKey] = json.slice(start, end);
+      start = end;
+    }
+    items[key] = { [CHUNKS_PROP]: index };
+    return items;
+  }
+
+  /**
+   * Reassemble values from storage items
+   *
+   * Values with missing chunks are left out, e.g. while another device is writing them.
+   */
+  fromItems(items: Record<string, unknown>): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(items)) {
+      if (chunkOwner(key) !== null) continue;
+
+      const count = chunkCount(item);
+      if (count === 0) {
+        values[key] = item;
+        continue;
+      }
+
+      const chunks: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const chunk = items[chunkKey(key, i)];
+        if (typeof chunk !== 'string') break;
+        chunks.push(chunk);
+      }
+      if (chunks.length < count) {
+        this.log.log('Incomplete synced value:', key);
+        continue;
+      }
+      values[key] = JSON.parse(chunks.join(''));
+    }
+    return values;
+  }
+
+  /**
+   * Get all remote options
+   */
+  async pull(): Promise<Record<string, unknown>> {
+    const values = this.fromItems(await this.remote.get(null));
+    this.synced = new Map(
+      Object.entries(values).map(([key, value]) => [key, JSON.stringify(value)])
+    );
+    return values;
+  }
+
+  /**
+   * Write changed options to the remote storage now
+   *
+   * Undefined values remove the option remotely.
+   *
+   * @throws QuotaExceededError or RateLimitExceededError from the remote storage
+   */
+  async push(changes: Record<string, unknown>): Promise<void> {
+    if (!this.synced) await this.pull();
+    const synced = this.synced!;
+
+    const set: Record<string, unknown> = {};
+    const remove: string[] = [];
+    const written = new Map<string, string | undefined>();
+
+    for (const [key, value] of Object.entries(changes)) {
+      const transformed = value === undefined ? undefined : transformValueForSync(value, key);
+      // Some options are never synced
+      if (value !== undefined && transformed === undefined) continue;
+
+      const json = transformed === undefined ? undefined : JSON.stringify(transformed);
+      const old = synced.get(key);
+      if (json === old) continue;
+
+      const items = transformed === undefined ? {} : this.toItems(key, transformed);
+      const oldItems = old === undefined ? {} : this.toItems(key, JSON.parse(old));
+      Object.assign(set, items);
+      remove.push(...Object.keys(oldItems).filter((itemKey) => !(itemKey in items)));
+      written.set(key, json);
+    }
+
+    if (Object.keys(set).length > 0) {
+      await this.remote.set(set);
+    }
+    if (remove.length > 0) {
+      await this.remote.remove(remove);
+    }
+
+    for (const [key, json] of written) {
+      if (json === undefined) {
+        synced.delete(key);
+      } else {
+        synced.set(key, json);
+      }
+    }
+  }
+
+  /**
+   * Push changed options after a short delay, collecting further changes meanwhile
+   */
+  requestPush(changes: Record<string, unknown>): void {
+    Object.assign(this.pending, changes);
+    this.pendingChanged();
+    this.schedulePush(this.pushDelay);
+  }
+
+  /**
+   * Push all pending changes now
+   */
+  async flush(): Promise<void> {
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+
+    this.pushing = this.pushing.then(async () => {
+      const changes = this.pending;
+      this.pending = {};
+      if (Object.keys(changes).length === 0) return;
+
+      try {
+        await this.push(changes);
+      } catch (e) {
+        const error = e instanceof Error ? e : new Error(String(e));
+        if (error instanceof RateLimitExceededError) {
+          // Keep newer changes made meanwhile
+          this.pending = { ...changes, ...this.pending };
+          this.schedulePush(this.retryDelay);
+          return;
+        }
+        this.log.error('Failed to push options:', error);
+        this.onError?.(error);
+      }
+      this.pendingChanged();
+    });
+    return this.pushing;
+  }
+
+  /**
+   * Drop pending changes
+   */
+  cancel(): void {
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+    this.pending = {};
+    this.pendingChanged();
+  }
+
+  /**
+   * Remove all options from the remote storage
+   */
+  async clear(): Promise<void> {
+    this.cancel();
+    await this.remote.remove(null);
+    this.synced = new Map();
+  }
+
+  /**
+   * Watch the remote storage for options changed by other devices
+   *
+   * Values written by this instance are not reported.
+   *
+   * @returns Function to stop watching
+   */
+  watch(callback: (changes: Record<string, unknown>) => void): () => void {
+    return this.remote.watch(null, (itemChanges) => {
+      const keys = new Set(Object.keys(itemChanges).map((key) => chunkOwner(key) ?? key));
+
+      this.remote
+        .get(null)
+        .then((items) => {
+          const values = this.fromItems(items);
+          const synced = (this.synced ??= new Map());
+          const changes: Record<string, unknown> = {};
+
+          for (const key of keys) {
+            // Still waiting for the other chunks
+            if (key in items && !(key in values)) continue;
+
+            const json = key in values ? JSON.stringify(values[key]) : undefined;
+            if (json === synced.get(key)) continue;
+
+            if (json === undefined) {
+              synced.delete(key);
+            } else {
+              synced.set(key, json);
+            }
+            changes[key] = values[key];
+          }
+
+          if (Object.keys(changes).length > 0) {
+            callback(changes);
+          }
+        })
+        .catch((e) => {
+          this.log.error('Failed to read synced options:', e);
+        });
+    });
+  }
+
+  private pendingChanged(): void {
+    this.onPendingChange?.(Object.keys(this.pending));
+  }
+
+  private schedulePush(delay: number): void {
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      void this.flush();
+    }, delay);
+  }
+}
+
+export default OptionsSync;
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { GistBackupProvider } from '../src/backup';
+import { HttpError, HttpNotFoundError } from '../src/errors';
+import { Options } from '../src/options';
+import { Storage } from '../src/storage';
+
+/** Files larger than this are truncated in API responses, like the real API does at 1 MB */
+const TRUNCATE_BYTES = 1000;
+
+interface StoredGist {
+  id: string;
+  revisions: { version: string; committed_at: string; files: Record<string, string> }[];
+}
+
+/**
+ * Local stand-in for the GitHub Gist API
+ */
+function gistServer(token: string) {
+  const gists = new Map<string, StoredGist>();
+  let url = '';
+
+  const gistJson = (gist: StoredGist, version?: string) => {
+    const index = version ? gist.revisions.findIndex((r) => r.version === version) : 0;
+    const revision = gist.revisions[index];
+    if (!revision) return null;
+
+    const files: Record<string, unknown> = {};
+    for (const [name, content] of Object.entries(revision.files)) {
+      const truncated = content.length > TRUNCATE_BYTES;
+      files[name] = {
+        content: truncated ? content.slice(0, TRUNCATE_BYTES) : content,
+        truncated,
+        raw_url: `${url}/raw/${gist.id}/${revision.version}/${name}`,
+      };
+    }
+    return {
+      id: gist.id,
+      files,
+      history: gist.revisions.slice(index).map(({ version, committed_at }) => ({
+        version,
+        committed_at,
+      })),
+    };
+  };
+
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const send = (status: number, data?: unknown) => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(data === undefined ? '' : typeof data === 'string' ? data : JSON.stringify(data));
+      };
+
+      const path = req.url ?? '';
+      const raw = /^\/raw\/([^/]+)\/([^/]+)\/(.+)$/.exec(path);
+      if (raw) {
+        const revision = gists.get(raw[1]!)?.revisions.find((r) => r.version === raw[2]);
+        return send(200, revision?.files[decodeURIComponent(raw[3]!)]);
+      }
+
+      if (req.headers.authorization !== `Bearer ${token}`) return send(401);
+
+      const commit = (gist: StoredGist) => {
+        const files = { ...gist.revisions[0]?.files };
+        for (const [name, file] of Object.entries(JSON.parse(body).files)) {
+          files[name] = (file as { content: string }).content;
+        }
+        const version = `v${gist.revisions.length + 1}`;
+        gist.revisions.unshift({ version, committed_at: new Date().toISOString(), files });
+        gists.set(gist.id, gist);
+        send(200, gistJson(gist));
+      };
+
+      if (req.method === 'POST' && path === '/gists') {
+        return commit({ id: `gist${gists.size + 1}`, revisions: [] });
+      }
+
+      const match = /^\/gists\/([^/]+)(?:\/([^/]+))?$/.exec(path);
+      const gist = match && gists.get(match[1]!);
+      if (!gist) return send(404);
+      if (req.method === 'PATCH') return commit(gist);
+      const json = gistJson(gist, match[2]);
+      return json ? send(200, json) : send(404);
+    });
+  });
+
+  return {
+    gists,
+    start: () =>
+      new Promise<string>((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+          url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+          resolve(url);
+        });
+      }),
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('GistBackupProvider', () => {
+  const server = gistServer('secret');
+  let apiUrl: string;
+
+  beforeAll(async () => {
+    apiUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should create a gist and restore any revision', async () => {
+    const provider = new GistBackupProvider({ token: 'secret', apiUrl });
+    expect(await provider.revisions()).toEqual([]);
+
+    const first = await provider.backup('{"-schemaVersion":2}');
+    expect(provider.gistId).toBe('gist1');
+    const second = await provider.backup('{"-schemaVersion":2,"-enableQuickSwitch":true}');
+    expect(provider.gistId).toBe('gist1');
+
+    const revisions = await provider.revisions();
+    expect(revisions.map((r) => r.id)).toEqual([second.id, first.id]);
+
+    expect(await provider.restore()).toBe('{"-schemaVersion":2,"-enableQuickSwitch":true}');
+    expect(await provider.restore(first.id)).toBe('{"-schemaVersion":2}');
+
+    // Another browser with the same gist
+    const other = new GistBackupProvider({ token: 'secret', apiUrl, gistId: 'gist1' });
+    expect((await other.revisions()).length).toBe(2);
+  });
+
+  it('should back up and restore options, including truncated files', async () => {
+    const storage = new Storage();
+    const options = new Options({ storage });
+    await options.init();
+    await options.set({ '-customCss': 'body { color: red; }'.repeat(100) });
+
+    const provider = new GistBackupProvider({ token: 'secret', apiUrl });
+    const revision = await options.backupOptions(provider);
+    await options.resetOptions();
+    expect(options.get('-customCss')).toBeUndefined();
+
+    await options.restoreOptions(provider, revision.id);
+    expect(options.get('-customCss')).toBe('body { color: red; }'.repeat(100));
+    expect((await storage.get('-customCss'))['-customCss']).toBeDefined();
+  });
+
+  it('should report API errors', async () => {
+    const unauthorized = new GistBackupProvider({ token: 'wrong', apiUrl });
+    await expect(unauthorized.backup('{}')).rejects.toBeInstanceOf(HttpError);
+
+    const missing = new GistBackupProvider({ token: 'secret', apiUrl, gistId: 'unknown' });
+    await expect(missing.restore()).rejects.toBeInstanceOf(HttpNotFoundError);
+    await expect(new GistBackupProvider({ token: 'secret', apiUrl }).restore()).rejects.toThrow(
+      'No gist to restore from'
+    );
+  });
+});
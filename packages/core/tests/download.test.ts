@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchUrl, downloadProfile, downloadProfiles } from '../src/download';
+import {
+  NetworkError,
+  HttpError,
+  HttpNotFoundError,
+  HttpServerError,
+  ContentTypeRejectedError,
+} from '../src/errors';
+import { Options } from '../src/options';
+import { Storage } from '../src/storage';
+import type { OmegaOptions, Profile, RuleListProfile } from '@dev-zapi/switchyalpha-pac';
+
+function respond(body: string, init: ResponseInit = {}) {
+  return vi.fn(async () => new Response(body, init));
+}
+
+describe('download', () => {
+  describe('fetchUrl', () => {
+    it('should return response text', async () => {
+      const text = await fetchUrl('https://example.com/list', {
+        fetch: respond('rules', { headers: { 'content-type': 'text/plain' } }),
+      });
+      expect(text).toBe('rules');
+    });
+
+    it('should wrap fetch failures in NetworkError', async () => {
+      const fetch = vi.fn(async () => {
+        throw new TypeError('Failed to fetch');
+      });
+      await expect(fetchUrl('https://example.com/', { fetch })).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('should map HTTP status codes to error classes', async () => {
+      await expect(
+        fetchUrl('https://example.com/', { fetch: respond('', { status: 404 }) })
+      ).rejects.toBeInstanceOf(HttpNotFoundError);
+      await expect(
+        fetchUrl('https://example.com/', { fetch: respond('', { status: 503 }) })
+      ).rejects.toBeInstanceOf(HttpServerError);
+
+      const error = await fetchUrl('https://example.com/', {
+        fetch: respond('', { status: 403 }),
+      }).catch((e) => e);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.statusCode).toBe(403);
+    });
+
+    it('should reject content types excluded by hints', async () => {
+      await expect(
+        fetchUrl('https://example.com/', {
+          fetch: respond('<html></html>', {
+            headers: { 'content-type': 'text/html; charset=utf-8' },
+          }),
+          contentTypeHints: ['!text/html', '*'],
+        })
+      ).rejects.toBeInstanceOf(ContentTypeRejectedError);
+    });
+  });
+
+  describe('downloadProfiles', () => {
+    const options = {
+      '-schemaVersion': 2,
+      '+list': {
+        name: 'list',
+        profileType: 'RuleListProfile',
+        format: 'Switchy',
+        sourceUrl: 'https://example.com/list.txt',
+        matchProfileName: 'proxy',
+        defaultProfileName: 'direct',
+        ruleList: '',
+      },
+      '+broken': {
+        name: 'broken',
+        profileType: 'PacProfile',
+        pacUrl: 'https://example.com/missing.pac',
+      },
+      '+local': {
+        name: 'local',
+        profileType: 'RuleListProfile',
+        format: 'Switchy',
+        matchProfileName: 'proxy',
+        defaultProfileName: 'direct',
+        ruleList: '*.example.com',
+      },
+    } as unknown as OmegaOptions;
+
+    const fetch = vi.fn(async (url: string) =>
+      url.endsWith('list.txt')
+        ? new Response('*.example.org', { headers: { 'content-type': 'text/plain' } })
+        : new Response('', { status: 404 })
+    );
+
+    it('should download profiles with a URL and report errors per profile', async () => {
+      const results = await downloadProfiles(options, { fetch });
+
+      expect(Object.keys(results).sort()).toEqual(['broken', 'list']);
+      expect(results['broken']).toBeInstanceOf(HttpNotFoundError);
+
+      const list = results['list'];
+      if (list instanceof Error || !list) throw new Error('expected download result');
+      expect(list.changed).toBe(true);
+      expect((list.profile as RuleListProfile).ruleList).toBe('*.example.org');
+      expect((list.profile as RuleListProfile).lastUpdate).toBeDefined();
+      expect(list.profile.revision).toBeDefined();
+
+      // The original options are left untouched
+      expect((options['+list'] as RuleListProfile).ruleList).toBe('');
+    });
+
+    it('should reject PAC content without FindProxyForURL', async () => {
+      const pac = {
+        name: 'remote',
+        profileType: 'PacProfile',
+        pacUrl: 'https://example.com/proxy.pac',
+        pacScript: 'function FindProxyForURL(url, host) { return "DIRECT"; }',
+      } as Profile;
+
+      await expect(
+        downloadProfile(pac, {
+          fetch: respond('Service unavailable', { headers: { 'content-type': 'text/plain' } }),
+        })
+      ).rejects.toBeInstanceOf(ContentTypeRejectedError);
+    });
+
+    it('should save downloaded profiles through Options', async () => {
+      const storage = new Storage();
+      await storage.set(options as unknown as Record<string, unknown>);
+      const opts = new Options({ storage });
+      await opts.init();
+
+      await opts.updateProfiles({ fetch, names: ['list'] });
+
+      const stored = await storage.get('+list');
+      expect((stored['+list'] as RuleListProfile).ruleList).toBe('*.example.org');
+      expect((opts.profile('list') as RuleListProfile).ruleList).toBe('*.example.org');
+    });
+  });
+});
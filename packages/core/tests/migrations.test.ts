@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { migrateOptions, schemaVersionOf, SCHEMA_VERSION } from '../src/migrations';
+import { NoOptionsError, SchemaVersionError } from '../src/errors';
+import { Options } from '../src/options';
+import { Storage } from '../src/storage';
+import type { FixedProfile, PacProfile, SwitchProfile } from '@dev-zapi/switchyalpha-pac';
+
+/** Options of an early SwitchyOmega version, before settings had a prefix */
+const schema0 = {
+  startupProfileName: 'auto',
+  enableQuickSwitch: true,
+  '+proxy': {
+    name: 'proxy',
+    profileType: 'FixedProfile',
+    fallbackProxy: { scheme: 'http', host: '127.0.0.1', port: 8080 },
+    bypassList: ['<local>', '127.0.0.1'],
+  },
+  '+auto': {
+    name: 'auto',
+    profileType: 'SwitchProfile',
+    defaultProfileName: 'direct',
+    rules: [
+      {
+        condition: { conditionType: 'WeekdayCondition', startDay: 1, endDay: 5 },
+        profileName: 'proxy',
+      },
+      { condition: { conditionType: 'IpCondition', ip: '10.0.0.0/8' }, profileName: 'direct' },
+    ],
+  },
+};
+
+describe('migrations', () => {
+  it('should detect schema versions', () => {
+    expect(schemaVersionOf({ '-schemaVersion': 2 })).toBe(2);
+    expect(schemaVersionOf({ schemaVersion: 1 })).toBe(1);
+    expect(schemaVersionOf(schema0)).toBe(0);
+    expect(schemaVersionOf({ _currentProfileName: 'proxy' })).toBeNull();
+  });
+
+  it('should upgrade schema 0 options step by step', () => {
+    const { options, from, to } = migrateOptions(schema0);
+    expect(from).toBe(0);
+    expect(to).toBe(SCHEMA_VERSION);
+
+    expect(options['-schemaVersion']).toBe(SCHEMA_VERSION);
+    expect(options['-startupProfileName']).toBe('auto');
+    expect(options['-enableQuickSwitch']).toBe(true);
+    expect('startupProfileName' in options).toBe(false);
+
+    expect((options['+proxy'] as FixedProfile).bypassList).toEqual([
+      { conditionType: 'BypassCondition', pattern: '<local>' },
+      { conditionType: 'BypassCondition', pattern: '127.0.0.1' },
+    ]);
+    expect((options['+auto'] as SwitchProfile).rules.map((rule) => rule.condition)).toEqual([
+      { conditionType: 'WeekdayCondition', days: '-MTWTF-' },
+      { conditionType: 'IpCondition', ip: '10.0.0.0', prefixLength: 8 },
+    ]);
+
+    // The input is left untouched
+    expect(schema0.startupProfileName).toBe('auto');
+  });
+
+  it('should add the auto_detect profile where schema 1 options reference it', () => {
+    const schema1 = {
+      schemaVersion: 1,
+      '+auto': {
+        name: 'auto',
+        profileType: 'SwitchProfile',
+        defaultProfileName: 'direct',
+        rules: [
+          {
+            condition: { conditionType: 'HostWildcardCondition', pattern: '*.corp.example.com' },
+            profileName: 'auto_detect',
+          },
+        ],
+      },
+    };
+
+    const { options, changes } = migrateOptions(schema1);
+    const autoDetect = options['+auto_detect'] as PacProfile;
+    expect(autoDetect).toMatchObject({
+      name: 'auto_detect',
+      profileType: 'PacProfile',
+      pacUrl: 'http://wpad/wpad.dat',
+    });
+    expect(changes['+auto_detect']).toEqual(autoDetect);
+
+    // Not added without references, nor replaced
+    const unused = migrateOptions({ schemaVersion: 1, '+proxy': schema0['+proxy'] }).options;
+    expect(unused).not.toHaveProperty('+auto_detect');
+    const custom = { ...autoDetect, pacUrl: 'http://example.com/wpad.dat' };
+    const kept = migrateOptions({ ...schema1, '+auto_detect': custom }).options;
+    expect((kept['+auto_detect'] as PacProfile).pacUrl).toBe('http://example.com/wpad.dat');
+  });
+
+  it('should rename the version key of SwitchyOmega backups', () => {
+    const { options, changes } = migrateOptions({ schemaVersion: 2, '-enableQuickSwitch': true });
+    expect(options).toEqual({ '-schemaVersion': 2, '-enableQuickSwitch': true });
+    expect(changes).toEqual({ schemaVersion: undefined, '-schemaVersion': 2 });
+  });
+
+  it('should refuse newer and invalid options', () => {
+    expect(() => migrateOptions({ '-schemaVersion': SCHEMA_VERSION + 1 })).toThrow(
+      SchemaVersionError
+    );
+    expect(() => migrateOptions({ foo: 'bar' })).toThrow(NoOptionsError);
+  });
+
+  it('should upgrade stored options on load', async () => {
+    const storage = new Storage();
+    await storage.set({ ...schema0, _currentProfileName: 'proxy' });
+    const options = new Options({ storage });
+    await options.init();
+
+    expect(options.getCurrentProfileName()).toBe('auto');
+    const stored = await storage.get(null);
+    expect(stored['-schemaVersion']).toBe(SCHEMA_VERSION);
+    expect(stored['startupProfileName']).toBeUndefined();
+    // Other keys in the same storage are kept
+    expect(stored['_currentProfileName']).toBe('proxy');
+  });
+
+  it('should keep newer options on load, but refuse to import them', async () => {
+    const storage = new Storage();
+    const newer = { '-schemaVersion': SCHEMA_VERSION + 1, '-futureSetting': true };
+    await storage.set(newer);
+    const options = new Options({ storage, log: { ...console, error: () => {} } as never });
+    await options.init();
+    expect(options.get('-schemaVersion' as never)).toBe(SCHEMA_VERSION + 1);
+
+    await expect(options.importOptions(JSON.stringify(newer))).rejects.toBeInstanceOf(
+      SchemaVersionError
+    );
+    await options.importOptions(JSON.stringify(schema0));
+    expect(options.get('-enableQuickSwitch')).toBe(true);
+  });
+});
@@ -2,7 +2,12 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { Options } from '../src/options';
 import { Storage } from '../src/storage';
 import { ProfileNotExistError, NoOptionsError } from '../src/errors';
-import { Profiles } from '@dev-zapi/switchyalpha-pac';
+import {
+  Profiles,
+  type OmegaOptions,
+  type SwitchProfile,
+  type VirtualProfile,
+} from '@dev-zapi/switchyalpha-pac';
 
 describe('Options', () => {
   let options: Options;
@@ -35,6 +40,14 @@ describe('Options', () => {
       expect(all['-schemaVersion']).toBe(2);
     });
 
+    it('should apply the startup profile instead of the last one', async () => {
+      await state.set({ currentProfileName: 'direct' });
+      await storage.set({ ...options.getDefaultOptions(), '-startupProfileName': 'proxy' });
+
+      await options.init();
+      expect(options.getCurrentProfileName()).toBe('proxy');
+    });
+
     it('should load existing options from storage', async () => {
       await storage.set({
         '-schemaVersion': 2,
@@ -96,6 +109,65 @@ describe('Options', () => {
     it('should throw when renaming non-existent profile', async () => {
       await expect(options.renameProfile('nope', 'new')).rejects.toThrow(ProfileNotExistError);
     });
+
+    it('should add a condition to a switch profile', async () => {
+      const condition = { conditionType: 'HostWildcardCondition' as const, pattern: '*.example.com' };
+      const profile = await options.addCondition(condition, 'proxy', 'auto switch');
+
+      expect((profile as SwitchProfile).rules[0]).toEqual({ condition, profileName: 'proxy' });
+      const stored = await storage.get('+auto switch');
+      expect((stored['+auto switch'] as SwitchProfile).rules[0]?.profileName).toBe('proxy');
+    });
+
+    it('should add several conditions at once', async () => {
+      const conditions = [
+        { conditionType: 'HostWildcardCondition' as const, pattern: '*.example.com' },
+        { conditionType: 'HostWildcardCondition' as const, pattern: '*.example.org' },
+      ];
+      const profile = await options.addConditions(conditions, 'proxy', 'auto switch');
+
+      const rules = (profile as SwitchProfile).rules;
+      expect(rules.map((rule) => rule.condition)).toEqual([...conditions].reverse());
+    });
+
+    it('should reject conditions for missing or non-switch profiles', async () => {
+      const condition = { conditionType: 'HostWildcardCondition' as const, pattern: '*.example.com' };
+      await expect(options.addCondition(condition, 'nope', 'auto switch')).rejects.toThrow(
+        ProfileNotExistError
+      );
+      await expect(options.addCondition(condition, 'direct', 'proxy')).rejects.toThrow(
+        'Cannot add condition'
+      );
+    });
+  });
+
+  describe('virtual profiles', () => {
+    beforeEach(async () => {
+      await options.init();
+      await options.addProfile(
+        Profiles.create({ name: 'alias', defaultProfileName: 'direct' }, 'VirtualProfile')
+      );
+    });
+
+    it('should retarget a virtual profile', async () => {
+      const profile = await options.setVirtualTarget('alias', 'proxy');
+
+      expect(profile.defaultProfileName).toBe('proxy');
+      const stored = await storage.get('+alias');
+      expect((stored['+alias'] as VirtualProfile).defaultProfileName).toBe('proxy');
+    });
+
+    it('should reject missing, non-virtual and looping targets', async () => {
+      await expect(options.setVirtualTarget('alias', 'nope')).rejects.toThrow(
+        ProfileNotExistError
+      );
+      await expect(options.setVirtualTarget('proxy', 'direct')).rejects.toThrow(
+        'not a virtual profile'
+      );
+      await expect(options.setVirtualTarget('alias', 'alias')).rejects.toThrow(
+        'cannot be the target'
+      );
+    });
   });
 
   describe('current profile', () => {
@@ -115,6 +187,44 @@ describe('Options', () => {
     it('should throw when applying non-existent profile', async () => {
       await expect(options.applyProfile('nonexistent')).rejects.toThrow(ProfileNotExistError);
     });
+
+    it('should tell if a profile is used by the current profile', async () => {
+      await options.applyProfile('auto switch');
+      expect(options.isProfileInUse('auto switch')).toBe(true);
+      expect(options.isProfileInUse('proxy')).toBe(false);
+
+      await options.addCondition(
+        { conditionType: 'HostWildcardCondition', pattern: '*.example.com' },
+        'proxy'
+      );
+      expect(options.isProfileInUse('proxy')).toBe(true);
+    });
+  });
+
+  describe('watchOptions', () => {
+    it('should merge options changed elsewhere', async () => {
+      let notify: (changes: Record<string, unknown>) => void = () => {};
+      storage.watch = (_keys, callback) => {
+        notify = callback;
+        return () => {};
+      };
+      await options.init();
+
+      const changes: Partial<OmegaOptions>[] = [];
+      options.watchOptions((changed) => changes.push(changed));
+
+      notify({
+        // Unchanged values are ignored, e.g. writes of the same instance
+        '+proxy': JSON.parse(JSON.stringify(options.profile('proxy'))),
+        '+auto switch': undefined,
+        '-enableQuickSwitch': true,
+        _currentProfileName: 'direct',
+      });
+
+      expect(changes).toEqual([{ '+auto switch': undefined, '-enableQuickSwitch': true }]);
+      expect(options.profile('auto switch')).toBeUndefined();
+      expect(options.get('-enableQuickSwitch')).toBe(true);
+    });
   });
 
   describe('import/export', () => {
@@ -137,5 +247,14 @@ describe('Options', () => {
       await options.importOptions(JSON.stringify(newOptions));
       expect(options.profile('imported')).toBeDefined();
     });
+
+    it('should reset options to the defaults', async () => {
+      await options.addProfile(Profiles.create('extra', 'FixedProfile'));
+
+      await options.resetOptions();
+      expect(options.profile('extra')).toBeUndefined();
+      expect(await storage.get('+extra')).toEqual({ '+extra': undefined });
+      expect(options.profile('proxy')).toBeDefined();
+    });
   });
 });
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OptionsSync, transformValueForSync } from '../src/sync';
+import { Options } from '../src/options';
+import { Storage, type WatchCallback } from '../src/storage';
+import { QuotaExceededError, RateLimitExceededError } from '../src/errors';
+import { Profiles, type RuleListProfile, type SwitchProfile } from '@dev-zapi/switchyalpha-pac';
+
+/**
+ * In-memory stand-in for chrome.storage.sync, shared by several devices
+ */
+class RemoteStorage extends Storage {
+  private watchers = new Set<WatchCallback>();
+  quotaBytesPerItem = 8192;
+  rateLimited = 0;
+
+  override async set(items: Record<string, unknown>): Promise<Record<string, unknown>> {
+    if (this.rateLimited > 0) {
+      this.rateLimited--;
+      throw new RateLimitExceededError();
+    }
+    for (const [key, value] of Object.entries(items)) {
+      if (key.length + JSON.stringify(value).length > this.quotaBytesPerItem) {
+        throw new QuotaExceededError();
+      }
+    }
+    await super.set(items);
+    this.notify(items);
+    return items;
+  }
+
+  override async remove(keys?: string | string[] | null): Promise<void> {
+    const removed = keys == null ? Object.keys(this._items) : ([] as string[]).concat(keys);
+    await super.remove(keys);
+    this.notify(Object.fromEntries(removed.map((key) => [key, undefined])));
+  }
+
+  override watch(_keys: string | string[] | null, callback: WatchCallback): () => void {
+    this.watchers.add(callback);
+    return () => this.watchers.delete(callback);
+  }
+
+  private notify(changes: Record<string, unknown>): void {
+    for (const callback of this.watchers) callback(changes);
+  }
+}
+
+function ruleList(name: string, revision: string): RuleListProfile {
+  return {
+    ...Profiles.create(name, 'RuleListProfile'),
+    format: 'Switchy',
+    sourceUrl: 'https://example.com/list.txt',
+    matchProfileName: 'direct',
+    defaultProfileName: 'direct',
+    revision,
+  } as RuleListProfile;
+}
+
+describe('OptionsSync', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should strip downloaded content and local settings', () => {
+    const list = { ...ruleList('list', '1'), ruleList: '*.example.com', lastUpdate: 'now' };
+    const synced = transformValueForSync(list, '+list') as Record<string, unknown>;
+    expect(synced['ruleList']).toBeUndefined();
+    expect(synced['lastUpdate']).toBeUndefined();
+    expect(synced['sourceUrl']).toBe('https://example.com/list.txt');
+    expect(transformValueForSync('body {}', '-customCss')).toBeUndefined();
+  });
+
+  it('should split large values into chunks within the per-item quota', async () => {
+    const remote = new RemoteStorage();
+    const sync = new OptionsSync(remote);
+
+    const profile = Profiles.create('auto switch', 'SwitchProfile') as SwitchProfile;
+    for (let i = 0; i < 500; i++) {
+      profile.rules.push({
+        condition: { conditionType: 'HostWildcardCondition', pattern: `*.例子${i}.example.com` },
+        profileName: 'proxy',
+      });
+    }
+    await sync.push({ '+auto switch': profile, '-enableQuickSwitch': true });
+
+    const items = await remote.get(null);
+    expect(Object.keys(items).length).toBeGreaterThan(3);
+    for (const [key, value] of Object.entries(items)) {
+      const bytes = new TextEncoder().encode(key + JSON.stringify(value)).length;
+      expect(bytes).toBeLessThanOrEqual(8192);
+    }
+    expect(await new OptionsSync(remote).pull()).toEqual({
+      '+auto switch': profile,
+      '-enableQuickSwitch': true,
+    });
+
+    // Chunks are removed once the value fits into a single item again
+    profile.rules = profile.rules.slice(0, 1);
+    await sync.push({ '+auto switch': profile });
+    expect(Object.keys(await remote.get(null)).sort()).toEqual([
+      '+auto switch',
+      '-enableQuickSwitch',
+    ]);
+  });
+
+  it('should surface quota errors and retry after rate limits', async () => {
+    const remote = new RemoteStorage();
+    remote.quotaBytesPerItem = 100;
+    const sync = new OptionsSync(remote, { pushDelay: 0, retryDelay: 0 });
+    const onError = vi.fn();
+    sync.onError = onError;
+
+    // Chunks larger than the storage accepts
+    await expect(
+      new OptionsSync(remote).push({ '-customColor': 'x'.repeat(200) })
+    ).rejects.toBeInstanceOf(QuotaExceededError);
+
+    remote.quotaBytesPerItem = 8192;
+    remote.rateLimited = 1;
+    sync.requestPush({ '-enableQuickSwitch': true });
+    await vi.waitFor(async () => {
+      expect(await remote.get('-enableQuickSwitch')).toEqual({ '-enableQuickSwitch': true });
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should merge profiles by revision', () => {
+    const local = { ...ruleList('list', '10'), ruleList: '*.example.com' };
+    const newer = ruleList('list', '20');
+
+    expect(OptionsSync.merge('+list', ruleList('list', '5'), local)).toBe(local);
+    expect(OptionsSync.merge('+list', newer, local)).toEqual({
+      ...newer,
+      ruleList: '*.example.com',
+    });
+    expect(OptionsSync.merge('+list', undefined, local)).toBeUndefined();
+    expect(OptionsSync.merge('-enableQuickSwitch', true, false)).toBe(true);
+  });
+
+  it('should sync options between devices and download stripped rule lists', async () => {
+    const fetch = vi.fn(
+      async () => new Response('*.example.org', { headers: { 'content-type': 'text/plain' } })
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    const remote = new RemoteStorage();
+    const device = async () => {
+      const options = new Options({
+        storage: new Storage(),
+        state: new Storage(),
+        sync: new OptionsSync(remote, { pushDelay: 0 }),
+      });
+      await options.init();
+      return options;
+    };
+
+    const first = await device();
+    await first.addProfile({ ...ruleList('list', '1'), ruleList: '*.example.com' });
+    expect((await first.getSyncState()).state).toBe('pristine');
+    await first.enableSync();
+    expect((await first.getSyncState()).state).toBe('sync');
+
+    const second = await device();
+    expect((await second.getSyncState()).state).toBe('conflict');
+    const pulled = vi.fn();
+    second.watchOptions(pulled);
+    await second.enableSync({ force: true });
+
+    expect(second.profile('list')).toBeDefined();
+    await vi.waitFor(() => {
+      expect((second.profile('list') as RuleListProfile).ruleList).toBe('*.example.org');
+    });
+    expect(fetch).toHaveBeenCalledWith('https://example.com/list.txt', expect.anything());
+
+    // Changes on one device are merged into the other one
+    await first.set({ '-enableQuickSwitch': true });
+    await vi.waitFor(() => {
+      expect(second.get('-enableQuickSwitch')).toBe(true);
+    });
+    expect(pulled).toHaveBeenCalledWith({ '-enableQuickSwitch': true });
+
+    await first.removeProfile('list');
+    await vi.waitFor(() => {
+      expect(second.profile('list')).toBeUndefined();
+    });
+  });
+
+  it('should push changes left pending by a stopped instance on the next init', async () => {
+    const remote = new RemoteStorage();
+    const storage = new Storage();
+    const state = new Storage();
+
+    const first = new Options({
+      storage,
+      state,
+      sync: new OptionsSync(remote, { pushDelay: 0, retryDelay: 60000 }),
+    });
+    await first.init();
+    await first.enableSync();
+    await first.flushSync();
+
+    // Rate limited, and stopped before the retry
+    remote.rateLimited = 1;
+    await first.set({ '-enableQuickSwitch': true });
+    await first.flushSync();
+    expect(await state.get('syncPending')).toEqual({ syncPending: ['-enableQuickSwitch'] });
+    expect(await remote.get('-enableQuickSwitch')).toEqual({ '-enableQuickSwitch': false });
+    // Stop the timers of the first instance, as a worker restart would
+    await first.disableSync();
+    await state.set({ syncEnabled: true, syncPending: ['-enableQuickSwitch'] });
+
+    const restarted = new Options({ storage, state, sync: new OptionsSync(remote) });
+    await restarted.init();
+    expect(await remote.get('-enableQuickSwitch')).toEqual({ '-enableQuickSwitch': true });
+    expect(restarted.get('-enableQuickSwitch')).toBe(true);
+    await restarted.flushSync();
+    expect(await state.get('syncPending')).toEqual({ syncPending: [] });
+  });
+});
+
@@ -0,0 +1,165 @@
+/**
+ * Proxy authentication module
+ *
+ * Answers proxy 407 challenges with the credentials stored on FixedProfiles:
+ * - Resolves the request URL through the current profile chain first
+ * - Falls back to any profile using a proxy at the challenging host:port
+ * - Gives up once every candidate credential has been tried for a request
+ */
+
+import {
+  Profiles,
+  requestFromUrl,
+  type FixedProfile,
+  type OmegaOptions,
+  type Profile,
+  type ProxyAuth,
+} from '@dev-zapi/switchyalpha-pac';
+import type { WorkerContext } from './context';
+
+/**
+ * Proxy server that issued an authentication challenge
+ */
+export interface AuthChallenger {
+  host: string;
+  port: number;
+}
+
+/** Number of credential attempts made per request ID */
+const attempts = new Map<string, number>();
+
+/**
+ * Check if two proxy endpoints refer to the same server
+ */
+function sameServer(host: string | undefined, port: number | undefined, challenger: AuthChallenger): boolean {
+  if (!host) return false;
+  const normalize = (h: string) => h.replace(/^\[|\]$/g, '').toLowerCase();
+  return normalize(host) === normalize(challenger.host) && (port ?? 80) === challenger.port;
+}
+
+/**
+ * Collect candidate credentials for a proxy challenge, most specific first
+ */
+export function findCredentials(
+  options: OmegaOptions,
+  currentProfileName: string,
+  url: string,
+  challenger: AuthChallenger
+): ProxyAuth[] {
+  const profiles = options as unknown as Record<string, Profile>;
+  const candidates: ProxyAuth[] = [];
+  const seen = new Set<string>();
+
+  const add = (auth?: ProxyAuth) => {
+    if (!auth?.username) return;
+    const key = auth.username + '\n' + auth.password;
+    if (seen.has(key)) return;
+    seen.add(key);
+    candidates.push(auth);
+  };
+
+  // The proxy that actually served this request according to the current profile
+  try {
+    const hops = Profiles.matchChain(currentProfileName, requestFromUrl(url), profiles);
+    const result = hops[hops.length - 1]?.result;
+    if (result?.proxy && sameServer(result.proxy.host, result.proxy.port, challenger)) {
+      add(result.auth);
+    }
+  } catch (e) {
+    console.debug('Failed to resolve profile chain for auth:', e);
+  }
+
+  // Any other profile using the same proxy server (e.g. behind a PAC script)
+  Profiles.each(profiles, (_key, profile) => {
+    if (profile.profileType !== 'FixedProfile') return;
+    const fixed = profile as FixedProfile;
+    for (const { prop } of Profiles.schemes) {
+      const proxy = fixed[prop];
+      if (proxy && sameServer(proxy.host, proxy.port, challenger)) {
+        add(fixed.auth?.[prop]);
+      }
+    }
+  });
+
+  return candidates;
+}
+
+/**
+ * Handle a chrome.webRequest.onAuthRequired event
+ */
+export async function handleAuthRequired(
+  details: chrome.webRequest.WebAuthenticationChallengeDetails,
+  context: WorkerContext
+): Promise<chrome.webRequest.BlockingResponse> {
+  // The challenge may be what woke the worker, before the options are loaded
+  const options = await context.getOptions();
+  if (!details.isProxy || !details.challenger || !options) {
+    return {};
+  }
+
+  const candidates = findCredentials(
+    options,
+    context.getCurrentProfileName(),
+    details.url,
+    details.challenger
+  );
+
+  const attempt = attempts.get(details.requestId) ?? 0;
+  if (attempt >= candidates.length) {
+    if (candidates.length > 0) {
+      console.warn(
+        'Proxy authentication failed after',
+        attempt,
+        'attempt(s):',
+        `${details.challenger.host}:${details.challenger.port}`
+      );
+      // Every stored credential was rejected - cancel instead of looping
+      return { cancel: true };
+    }
+    return {};
+  }
+
+  attempts.set(details.requestId, attempt + 1);
+  const auth = candidates[attempt]!;
+  return {
+    authCredentials: {
+      username: auth.username,
+      password: auth.password,
+    },
+  };
+}
+
+/**
+ * Forget attempts for a finished request
+ */
+function clearAttempts(details: { requestId: string }): void {
+  attempts.delete(details.requestId);
+}
+
+/**
+ * Initialize proxy authentication listeners
+ */
+export function initAuthListener(context: WorkerContext): void {
+  if (!chrome.webRequest?.onAuthRequired) {
+    console.warn('webRequest.onAuthRequired is not available, proxy auth disabled');
+    return;
+  }
+
+  chrome.webRequest.onAuthRequired.addListener(
+    (details, callback) => {
+      handleAuthRequired(details, context)
+        .catch((e) => {
+          console.error('Failed to answer proxy auth challenge:', e);
+          return {};
+        })
+        .then((response) => callback?.(response));
+    },
+    { urls: ['<all_urls>'] },
+    ['asyncBlocking']
+  );
+
+  chrome.webRequest.onCompleted.addListener(clearAttempts, { urls: ['<all_urls>'] });
+  chrome.webRequest.onErrorOccurred.addListener(clearAttempts, { urls: ['<all_urls>'] });
+
+  console.log('Proxy auth listener initialized');
+}
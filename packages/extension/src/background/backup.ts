@@ -0,0 +1,56 @@
+/**
+ * Options backups in a GitHub Gist
+ *
+ * The token and gist ID are kept in the worker state, so they are neither
+ * exported with the options nor synced to other browsers.
+ */
+
+import { GistBackupProvider } from '@dev-zapi/switchyalpha-core';
+import { ChromeStorage, STATE_PREFIX } from '../lib/utils/chrome-storage';
+
+/**
+ * Gist backup settings
+ */
+export interface GistConfig {
+  gistToken: string;
+  gistId: string;
+}
+
+const state = new ChromeStorage('local', STATE_PREFIX);
+
+/**
+ * Get the gist backup settings
+ */
+export async function getGistConfig(): Promise<GistConfig> {
+  return (await state.get({ gistToken: '', gistId: '' })) as unknown as GistConfig;
+}
+
+/**
+ * Change the gist backup settings
+ */
+export async function setGistConfig(config: Partial<GistConfig>): Promise<void> {
+  await state.set(config);
+}
+
+/**
+ * Get the backup provider for the configured gist
+ *
+ * @throws Error if no token is configured
+ */
+export async function getGistProvider(): Promise<GistBackupProvider> {
+  const { gistToken, gistId } = await getGistConfig();
+  if (!gistToken) {
+    throw new Error('No GitHub token configured');
+  }
+  return new GistBackupProvider({ token: gistToken, gistId });
+}
+
+/**
+ * Remember the gist created by the first backup
+ */
+export async function gistBackedUp(provider: GistBackupProvider): Promise<void> {
+  const { gistId } = await getGistConfig();
+  if (provider.gistId && provider.gistId !== gistId) {
+    await setGistConfig({ gistId: provider.gistId });
+  }
+}
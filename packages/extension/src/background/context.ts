@@ -0,0 +1,21 @@
+/**
+ * Background worker context
+ *
+ * The worker state is owned by index.ts and handed to the background modules
+ * (auth, downloads, inspect, quick switch, proxy settings) through one context.
+ */
+
+import type { OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+
+/**
+ * Accessors for the background worker state
+ */
+export interface WorkerContext {
+  /** Resolves the options, loading them if the worker just woke up */
+  getOptions: () => Promise<OmegaOptions | null>;
+  /** Saves changed options */
+  setOptions: (changes: Partial<OmegaOptions>) => Promise<void>;
+  getCurrentProfileName: () => string;
+  /** Applies a profile and updates the worker state for it */
+  applyProfile: (name: string) => Promise<void>;
+}
@@ -0,0 +1,240 @@
+/**
+ * Profile download scheduler
+ *
+ * Periodically refreshes online profile content (rule lists and PAC URLs):
+ * - Uses chrome.alarms alarms so the schedule survives worker restarts
+ * - Rule lists follow the global -downloadInterval option (minutes, 0 disables)
+ * - Remote PAC scripts have their own -pacDownloadInterval schedule
+ * - Failed downloads keep the last known good content
+ * - Re-applies the current profile when it depends on changed content
+ */
+
+import { Profiles, type OmegaOptions, type Profile } from '@dev-zapi/switchyalpha-pac';
+import { downloadProfiles, type DownloadResults } from '@dev-zapi/switchyalpha-core';
+import type { WorkerContext } from './context';
+
+/** Name of the alarm used for scheduled rule list downloads */
+export const DOWNLOAD_ALARM = 'downloadProfiles';
+
+/** Name of the alarm used for scheduled PAC script downloads */
+export const PAC_DOWNLOAD_ALARM = 'downloadPacScripts';
+
+/** PAC script refresh interval (minutes) when -pacDownloadInterval is unset */
+export const DEFAULT_PAC_DOWNLOAD_INTERVAL = 60;
+
+/**
+ * Create, update or clear an alarm for an interval in minutes
+ *
+ * An existing alarm with the same period is kept so that restarting the
+ * service worker does not postpone the next download.
+ */
+async function scheduleAlarm(name: string, interval: number | undefined): Promise<void> {
+  const period = Number(interval) || 0;
+  const existing = await chrome.alarms.get(name);
+
+  if (period <= 0) {
+    if (existing) {
+      await chrome.alarms.clear(name);
+      console.log('Scheduled downloads disabled:', name);
+    }
+    return;
+  }
+
+  if (existing?.periodInMinutes === period) {
+    return;
+  }
+
+  await chrome.alarms.create(name, { periodInMinutes: period });
+  console.log('Scheduled', name, 'every', period, 'minute(s)');
+}
+
+/**
+ * Update the download alarms for the interval options
+ */
+export async function scheduleDownloads(options: OmegaOptions): Promise<void> {
+  await scheduleAlarm(DOWNLOAD_ALARM, options['-downloadInterval']);
+  await scheduleAlarm(
+    PAC_DOWNLOAD_ALARM,
+    options['-pacDownloadInterval'] ?? DEFAULT_PAC_DOWNLOAD_INTERVAL
+  );
+}
+
+/**
+ * Get the names of downloadable profiles
+ *
+ * @param pac Select PAC profiles if true, other profiles (rule lists) if false
+ */
+export function downloadableProfileNames(options: OmegaOptions, pac: boolean): string[] {
+  const names: string[] = [];
+  Profiles.each(options as unknown as Record<string, Profile>, (_key, profile) => {
+    if ((profile.profileType === 'PacProfile') === pac && Profiles.updateUrl(profile)) {
+      names.push(profile.name);
+    }
+  });
+  return names;
+}
+
+/**
+ * Get remote PAC profiles used by a profile that have no cached script yet
+ */
+export function missingPacScripts(options: OmegaOptions, profileName: string): string[] {
+  const profiles = options as unknown as Record<string, Profile>;
+  const references = Profiles.allReferenceSet(profileName, profiles);
+
+  return Object.values(references).filter((name) => {
+    if (name === profileName) return false;
+    const profile = Profiles.byName(name, profiles);
+    return (
+      profile?.profileType === 'PacProfile' &&
+      !profile.pacScript &&
+      !!Profiles.updateUrl(profile)
+    );
+  });
+}
+
+/** Profile fields set by a download */
+type DownloadedProfile = Profile & {
+  ruleList?: string;
+  pacScript?: string;
+  format?: string;
+  lastUpdate?: string;
+};
+
+/**
+ * Merge downloaded content into the current version of a profile
+ *
+ * Other fields may have been edited while downloading and are kept.
+ *
+ * @returns the merged copy, or null if the profile was deleted, now downloads from
+ *   another URL, or its content did not change
+ */
+function mergeDownload(current: Profile | undefined, downloaded: Profile): Profile | null {
+  if (
+    !current ||
+    current.profileType !== downloaded.profileType ||
+    Profiles.updateUrl(current) !== Profiles.updateUrl(downloaded)
+  ) {
+    return null;
+  }
+
+  const source = downloaded as DownloadedProfile;
+  const merged = JSON.parse(JSON.stringify(current)) as DownloadedProfile;
+  if (current.profileType === 'PacProfile') {
+    if (merged.pacScript === source.pacScript) return null;
+    merged.pacScript = source.pacScript;
+  } else {
+    if (merged.ruleList === source.ruleList && merged.format === source.format) return null;
+    merged.ruleList = source.ruleList;
+    merged.format = source.format;
+  }
+  merged.lastUpdate = source.lastUpdate;
+  Profiles.updateRevision(merged, source.revision);
+  return merged;
+}
+
+/**
+ * Download profiles, save the results and re-apply the current profile if needed
+ *
+ * @param names Only download these profiles (defaults to all downloadable profiles)
+ */
+export async function runDownloads(
+  context: WorkerContext,
+  names?: string[]
+): Promise<DownloadResults> {
+  const options = await context.getOptions();
+  if (!options) {
+    return {};
+  }
+
+  const results = await downloadProfiles(options, { names, bypassCache: true });
+
+  // Options may have been edited while downloading, merge into the current profiles
+  const current = await context.getOptions();
+  if (!current) {
+    return results;
+  }
+  const profiles = current as unknown as Record<string, Profile>;
+
+  const updates: Record<string, Profile> = {};
+  for (const [name, result] of Object.entries(results)) {
+    if (result instanceof Error) {
+      console.warn('Failed to download profile', name + ':', result.message);
+      continue;
+    }
+    const key = Profiles.nameAsKey(name);
+    const merged = mergeDownload(profiles[key], result.profile);
+    if (merged) {
+      updates[key] = merged;
+    }
+  }
+
+  const changed = Object.values(updates).map((profile) => profile.name);
+  if (changed.length === 0) {
+    return results;
+  }
+  await context.setOptions(updates);
+
+  console.log('Downloaded profile content changed:', changed);
+  const currentProfileName = context.getCurrentProfileName();
+  const references = Profiles.allReferenceSet(currentProfileName, profiles);
+  if (changed.some((name) => references[Profiles.nameAsKey(name)])) {
+    await context.applyProfile(currentProfileName);
+  }
+
+  return results;
+}
+
+/**
+ * Download remote PAC scripts used by a profile that have not been cached yet
+ *
+ * The current profile is re-applied by runDownloads() once they arrive. Until then,
+ * requests routed to these profiles fail instead of going direct.
+ */
+export async function downloadMissingPacScripts(
+  context: WorkerContext,
+  profileName: string
+): Promise<void> {
+  const options = await context.getOptions();
+  if (!options) return;
+
+  const names = missingPacScripts(options, profileName);
+  if (names.length > 0) {
+    console.log('Downloading PAC scripts used by', profileName + ':', names);
+    const results = await runDownloads(context, names);
+    // Requests using these profiles fail until their scripts can be downloaded
+    const failed = names.filter((name) => !results[name] || results[name] instanceof Error);
+    if (failed.length > 0) {
+      console.error('PAC scripts used by', profileName, 'could not be downloaded:', failed);
+    }
+  }
+}
+
+/**
+ * Initialize the download alarm listener
+ *
+ * Must be called synchronously at startup so alarms can wake the worker.
+ * The alarms themselves are set up by scheduleDownloads() once options are loaded.
+ */
+export function initDownloadScheduler(context: WorkerContext): void {
+  if (!chrome.alarms) {
+    console.warn('alarms API is not available, scheduled downloads disabled');
+    return;
+  }
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== DOWNLOAD_ALARM && alarm.name !== PAC_DOWNLOAD_ALARM) return;
+
+    context
+      .getOptions()
+      .then((options) => {
+        if (!options) return;
+        const names = downloadableProfileNames(options, alarm.name === PAC_DOWNLOAD_ALARM);
+        if (names.length > 0) {
+          return runDownloads(context, names);
+        }
+      })
+      .catch((e) => {
+        console.error('Scheduled download failed:', e);
+      });
+  });
+}
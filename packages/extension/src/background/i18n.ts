@@ -0,0 +1,19 @@
+/**
+ * Messages for the background worker
+ *
+ * The worker has no access to the UI i18n store, so messages are looked up
+ * in the generated translations using the -language option.
+ */
+
+import type { OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+import { translations, type Language } from '../lib/locales';
+
+/**
+ * Get a message in the UI language, falling back to English and then the key
+ */
+export function message(options: OmegaOptions | null, key: string): string {
+  const language = (options as Record<string, unknown> | null)?.['-language'] as
+    | Language
+    | undefined;
+  return (language && translations[language]?.[key]) || translations.en[key] || key;
+}
@@ -253,3 +253,35 @@ export async function updateIconForProfile(
 
   await setActionIcon(imageData, tabId);
 }
+
+/**
+ * Set the browser action badge text and color
+ *
+ * An empty text removes the badge. For a tab, null falls back to the global badge instead.
+ */
+export async function setActionBadge(
+  text: string | null,
+  color: string,
+  tabId?: number
+): Promise<void> {
+  try {
+    await chrome.action.setBadgeText({
+      // Chrome accepts null, but the type declarations do not
+      text: text as string,
+      ...(tabId !== undefined && { tabId }),
+    });
+    if (text) {
+      await chrome.action.setBadgeBackgroundColor({
+        color,
+        ...(tabId !== undefined && { tabId }),
+      });
+    }
+  } catch (e) {
+    // Ignore "No tab with id" errors - tab may have been closed
+    const errorMessage = e instanceof Error ? e.message : String(e);
+    if (errorMessage.includes('No tab with id')) {
+      return;
+    }
+    console.error('Failed to set action badge:', e);
+  }
+}
@@ -1,257 +1,90 @@
 // Background service worker for ZeroOmega
 import {
   Profiles,
-  generatePacScript,
   requestFromUrl,
   type Profile,
   type OmegaOptions,
-  type FixedProfile,
-  type PacProfile,
-  type SwitchProfile,
-  type RuleListProfile,
 } from '@dev-zapi/switchyalpha-pac';
-import { updateIconForProfile, getDisplayText } from './icon';
-import { initTabsListenerWithUpdate, isMatchableUrl, getAllTabs } from './tabs';
+import { updateIconForProfile } from './icon';
+import {
+  initTabsListenerWithUpdate,
+  isMatchableUrl,
+  getAllTabs,
+  getCurrentTabInfo,
+  reloadChangedTabs,
+  resolveProxyResult,
+  resolveTabs,
+} from './tabs';
+import { initAuthListener } from './auth';
+import type { WorkerContext } from './context';
+import { clearFailedHosts, getFailedHosts, initRequestMonitor } from './requests';
+import { initInspectMenu, takeInspectResult, updateInspectMenu } from './inspect';
+import { initQuickSwitch, updateQuickSwitch } from './quickswitch';
+import { getProxyConflict, initProxySettingsMonitor, updateProxySettingsState } from './proxy';
+import { ChromeOptions } from './options';
+import { getGistConfig, getGistProvider, gistBackedUp, setGistConfig } from './backup';
+import {
+  downloadMissingPacScripts,
+  initDownloadScheduler,
+  runDownloads,
+  scheduleDownloads,
+} from './download';
 
 console.log('ZeroOmega background service worker started');
 
-// State
-let options: OmegaOptions | null = null;
-let currentProfileName = 'system';
-
-// Default options
-function getDefaultOptions(): OmegaOptions {
-  return {
-    '-schemaVersion': 2,
-    '-startupProfileName': '',
-    '-quickSwitchProfiles': [],
-    '-refreshOnProfileChange': false,
-    '-enableQuickSwitch': false,
-    '-revertProxyChanges': false,
-    '-showInspectMenu': true,
-    '-downloadInterval': 1440,
-    '+proxy': Profiles.create('proxy', 'FixedProfile'),
-    '+auto switch': Profiles.create('auto switch', 'SwitchProfile'),
-  } as OmegaOptions;
-}
+// Options and the current profile, stored in chrome.storage.local
+const options = new ChromeOptions();
+let stopWatchingOptions: (() => void) | null = null;
 
-// Load options from storage
-async function loadOptions(): Promise<OmegaOptions> {
-  const stored = await chrome.storage.local.get(null);
-  
-  if (!stored || !stored['-schemaVersion']) {
-    // First run - use defaults
-    const defaults = getDefaultOptions();
-    await chrome.storage.local.set(defaults);
-    return defaults;
-  }
-  
-  return stored as OmegaOptions;
-}
-
-// Apply a profile (set proxy settings)
+// Apply a profile (set proxy settings) and update the worker state for it
 async function applyProfile(name: string): Promise<void> {
-  currentProfileName = name;
-  await chrome.storage.local.set({ _currentProfileName: name });
-
-  // Get profile
-  const profile =
-    name === 'direct' || name === 'system'
-      ? null
-      : options
-        ? Profiles.byName(name, options as unknown as Record<string, Profile>)
-        : null;
-
-  if (name === 'direct') {
-    // Direct connection - clear proxy
-    await chrome.proxy.settings.set({
-      value: { mode: 'direct' },
-      scope: 'regular',
-    });
-  } else if (name === 'system') {
-    // Use system proxy
-    await chrome.proxy.settings.set({
-      value: { mode: 'system' },
-      scope: 'regular',
-    });
-  } else if (profile?.profileType === 'FixedProfile') {
-    // Fixed proxy
-    await applyFixedProfile(profile as FixedProfile);
-  } else if (
-    profile?.profileType === 'SwitchProfile' ||
-    profile?.profileType === 'VirtualProfile'
-  ) {
-    // Switch profile - uses PAC script
-    await applySwitchProfile(profile as SwitchProfile, name);
-  } else if (
-    profile?.profileType === 'RuleListProfile' ||
-    profile?.profileType === 'AutoProxyRuleListProfile'
-  ) {
-    // Rule list profile - uses PAC script
-    await applyRuleListProfile(profile as RuleListProfile, name);
-  } else if (profile?.profileType === 'PacProfile') {
-    // PAC profile
-    await applyPacProfile(profile as PacProfile);
-  } else {
-    console.warn('Unknown or null profile type:', name, profile?.profileType);
-  }
+  // Resolve open tabs with the previous profile to find the ones whose proxy changes
+  const previousTabs =
+    name !== options.getCurrentProfileName() && options.get('-refreshOnProfileChange')
+      ? await resolveTabs(resolveProxy)
+      : null;
 
-  // Update icon
-  await updateIcon(name);
-}
-
-// Apply a FixedProfile
-async function applyFixedProfile(profile: FixedProfile): Promise<void> {
-  const proxy = profile.fallbackProxy;
-
-  if (proxy?.host) {
-    // Convert bypassList from BypassCondition objects to strings
-    const bypassConditions = profile.bypassList || [];
-    const bypassList: string[] = bypassConditions
-      .map((c: any) => c.pattern || c)
-      .filter((p: any) => typeof p === 'string' && p.length > 0);
-
-    console.log('Applying fixed proxy:', {
-      scheme: proxy.scheme || 'http',
-      host: proxy.host,
-      port: proxy.port || 8080,
-      bypassList,
-    });
-
-    await chrome.proxy.settings.set({
-      value: {
-        mode: 'fixed_servers',
-        rules: {
-          singleProxy: {
-            scheme: proxy.scheme || 'http',
-            host: proxy.host,
-            port: proxy.port || 8080,
-          },
-          bypassList,
-        },
-      },
-      scope: 'regular',
-    });
-  } else {
-    console.warn('Fixed profile has no fallbackProxy configured:', profile.name);
+  try {
+    await options.applyProfile(name);
+  } finally {
+    // Also when the proxy settings failed closed, the profile is current now
+    await profileApplied();
   }
-}
 
-// Apply a SwitchProfile using PAC script
-async function applySwitchProfile(profile: SwitchProfile, name: string): Promise<void> {
-  if (!options) {
-    console.warn('No options loaded, cannot apply switch profile');
-    return;
-  }
-
-  try {
-    const pacScript = generatePacScript(
-      options as unknown as Record<string, Profile>,
-      name,
-      { includeComments: true }
-    );
-
-    console.log('Applying PAC script for switch profile:', name);
-    console.log('PAC script length:', pacScript.length);
-
-    await chrome.proxy.settings.set({
-      value: {
-        mode: 'pac_script',
-        pacScript: {
-          data: pacScript,
-        },
-      },
-      scope: 'regular',
-    });
-  } catch (e) {
-    console.error('Failed to generate PAC script:', e);
+  if (previousTabs) {
+    const reloaded = await reloadChangedTabs(previousTabs, resolveProxy);
+    console.log('Reloaded tabs after profile change:', reloaded.length);
   }
 }
 
-// Apply a RuleListProfile using PAC script
-async function applyRuleListProfile(profile: RuleListProfile, name: string): Promise<void> {
-  if (!options) {
-    console.warn('No options loaded, cannot apply rule list profile');
-    return;
-  }
+// Update the worker state after the current profile has been applied
+async function profileApplied(): Promise<void> {
+  const profile = options.getCurrentProfile();
 
-  try {
-    const pacScript = generatePacScript(
-      options as unknown as Record<string, Profile>,
-      name,
-      { includeComments: true }
-    );
-
-    console.log('Applying PAC script for rule list profile:', name);
-
-    await chrome.proxy.settings.set({
-      value: {
-        mode: 'pac_script',
-        pacScript: {
-          data: pacScript,
-        },
-      },
-      scope: 'regular',
+  // Fetch remote PAC scripts used as rule results, re-applying once cached
+  if (profile && Profiles.isInclusive(profile)) {
+    downloadMissingPacScripts(workerContext, profile.name).catch((e) => {
+      console.warn('Failed to download PAC scripts:', e);
     });
-  } catch (e) {
-    console.error('Failed to generate PAC script:', e);
   }
-}
 
-// Apply a PacProfile
-async function applyPacProfile(profile: PacProfile): Promise<void> {
-  if (profile.pacUrl) {
-    // Use PAC URL directly
-    console.log('Applying PAC URL:', profile.pacUrl);
-
-    await chrome.proxy.settings.set({
-      value: {
-        mode: 'pac_script',
-        pacScript: {
-          url: profile.pacUrl,
-        },
-      },
-      scope: 'regular',
-    });
-  } else if (profile.pacScript) {
-    // Use inline PAC script
-    console.log('Applying inline PAC script');
-
-    await chrome.proxy.settings.set({
-      value: {
-        mode: 'pac_script',
-        pacScript: {
-          data: profile.pacScript,
-        },
-      },
-      scope: 'regular',
-    });
-  } else {
-    console.warn('PAC profile has no URL or script:', profile.name);
-  }
+  // Update icon
+  await updateAllTabsIcon();
 }
 
-/**
- * Get the current active profile
- */
-function getCurrentProfile(): Profile | null {
-  if (currentProfileName === 'direct') {
-    return Profiles.builtinProfiles['+direct'];
-  }
-  if (currentProfileName === 'system') {
-    return Profiles.builtinProfiles['+system'];
-  }
-  if (options) {
-    return Profiles.byName(currentProfileName, options as unknown as Record<string, Profile>) || null;
-  }
-  return null;
+// Update the background modules depending on options
+async function optionsChanged(): Promise<void> {
+  const all = options.getAll();
+  await scheduleDownloads(all);
+  await updateInspectMenu(all);
+  await updateQuickSwitch(all);
 }
 
 /**
  * Match a URL against the current profile and get the result profile
  */
 function matchUrlToProfile(url: string): { profile: Profile; resultProfile?: Profile } | null {
-  const currentProfile = getCurrentProfile();
+  const currentProfile = options.getCurrentProfile();
   if (!currentProfile) return null;
 
   // For non-inclusive profiles (DirectProfile, FixedProfile, SystemProfile),
@@ -267,10 +100,7 @@ function matchUrlToProfile(url: string): { profile: Profile; resultProfile?: Pro
 
     if (match) {
       // Get the result profile
-      const resultProfile = Profiles.byName(
-        match.profileName,
-        options as unknown as Record<string, Profile>
-      );
+      const resultProfile = match.profileName ? options.profile(match.profileName) : undefined;
       return {
         profile: currentProfile,
         resultProfile: resultProfile || undefined,
@@ -283,6 +113,13 @@ function matchUrlToProfile(url: string): { profile: Profile; resultProfile?: Pro
   return { profile: currentProfile };
 }
 
+/**
+ * Get the final proxy result of the current profile for a URL
+ */
+function resolveProxy(url: string): string | null {
+  return resolveProxyResult(options.getAll(), options.getCurrentProfileName(), url);
+}
+
 /**
  * Update the browser icon for a specific tab based on URL matching
  */
@@ -304,7 +141,7 @@ async function updateIconForTab(tabId: number, url: string): Promise<void> {
  * Update icons for all tabs
  */
 async function updateAllTabsIcon(): Promise<void> {
-  const currentProfile = getCurrentProfile();
+  const currentProfile = options.getCurrentProfile();
   if (!currentProfile) return;
 
   // Get all tabs
@@ -321,27 +158,31 @@ async function updateAllTabsIcon(): Promise<void> {
   await updateIconForProfile(currentProfile);
 }
 
-// Update extension icon (replaces old badge system)
-async function updateIcon(profileName: string): Promise<void> {
-  // Update all tab icons
-  await updateAllTabsIcon();
+// Apply the current profile again after options changed, or the fallback if it was removed
+async function reapplyProfile(): Promise<void> {
+  await applyProfile(
+    options.getCurrentProfile() ? options.getCurrentProfileName() : options.fallbackProfileName
+  );
 }
 
 // Initialize
 async function init(): Promise<void> {
-  options = await loadOptions();
-  
-  // Load saved current profile
-  const stored = await chrome.storage.local.get('_currentProfileName');
-  currentProfileName = stored._currentProfileName || 'system';
-  
-  // Apply startup profile if configured
-  const startupProfile = options['-startupProfileName'];
-  if (startupProfile) {
-    await applyProfile(startupProfile);
-  } else {
-    await applyProfile(currentProfileName);
-  }
+  // Load options and apply the startup or last used profile
+  await options.init();
+  await profileApplied();
+
+  await optionsChanged();
+  await updateProxySettingsState(workerContext);
+
+  // Follow options changed in storage by others, e.g. sync
+  stopWatchingOptions?.();
+  stopWatchingOptions = options.watchOptions(() => {
+    reapplyProfile()
+      .then(optionsChanged)
+      .catch((e) => {
+        console.error('Failed to apply changed options:', e);
+      });
+  });
 
   // Initialize tab listeners for dynamic icon updates
   await initTabsListenerWithUpdate((tabId, url) => {
@@ -351,14 +192,12 @@ async function init(): Promise<void> {
   });
 }
 
-// Listen for extension installation
+// Listen for extension installation, initialized below like every worker start
 chrome.runtime.onInstalled.addListener((details) => {
   if (details.reason === 'install') {
     console.log('ZeroOmega installed');
-    init();
   } else if (details.reason === 'update') {
     console.log('ZeroOmega updated');
-    init();
   }
 });
 
@@ -367,44 +206,141 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   // Handle async operations properly
   const handleMessage = async () => {
     try {
+      // A message may wake the worker before options are loaded
+      await options.ready;
+
       switch (message.action) {
         case 'getOptions':
-          if (!options) {
-            options = await loadOptions();
-          }
           return {
-            options,
-            currentProfileName,
+            options: options.getAll(),
+            currentProfileName: options.getCurrentProfileName(),
           };
           
         case 'setOptions':
           if (message.options) {
-            options = message.options;
-            // Clear storage first to remove deleted profiles, then set new options
-            await chrome.storage.local.clear();
-            await chrome.storage.local.set(options);
+            // Replace all options to remove deleted profiles
+            await options.resetOptions(message.options as OmegaOptions);
             // Re-apply current profile with new settings
-            await applyProfile(currentProfileName);
+            await reapplyProfile();
+            await optionsChanged();
           }
           return { success: true };
+
+        case 'updateProfiles': {
+          // Download now, e.g. from the options page
+          const results = await runDownloads(workerContext, message.names);
+          const errors: Record<string, string> = {};
+          for (const [name, result] of Object.entries(results)) {
+            if (result instanceof Error) {
+              errors[name] = result.message;
+            }
+          }
+          return {
+            success: Object.keys(errors).length === 0,
+            errors,
+            options: options.getAll(),
+          };
+        }
           
         case 'applyProfile':
           await applyProfile(message.profileName);
           return { success: true };
+
+        case 'getCurrentTabInfo':
+          return { tab: await getCurrentTabInfo() };
+
+        case 'addCondition': {
+          const profile = await options.addConditions(
+            message.conditions ?? [message.condition],
+            message.profileName,
+            message.switchProfileName
+          );
+          // Regenerate the PAC script if the profile is in use
+          if (options.isProfileInUse(profile.name)) {
+            await applyProfile(options.getCurrentProfileName());
+          }
+          return { success: true, options: options.getAll() };
+        }
+
+        case 'setVirtualTarget': {
+          const profile = await options.setVirtualTarget(message.profileName, message.targetName);
+          // Everything using the virtual profile now acts as the new target
+          if (options.isProfileInUse(profile.name)) {
+            await applyProfile(options.getCurrentProfileName());
+          }
+          return { success: true, options: options.getAll() };
+        }
+
+        case 'getFailedResources':
+          return { hosts: getFailedHosts(message.tabId) };
+
+        case 'getProxyConflict':
+          return { conflict: getProxyConflict() };
+
+        case 'getInspectResult':
+          return { result: await takeInspectResult(message.tabId) };
+
+        case 'clearFailedResources':
+          await clearFailedHosts(message.tabId, message.hosts);
+          return { success: true };
           
         case 'importOptions':
           if (message.options) {
-            await chrome.storage.local.clear();
-            await chrome.storage.local.set(message.options);
-            options = message.options;
+            await options.resetOptions(message.options as OmegaOptions);
+            await reapplyProfile();
+            await optionsChanged();
           }
           return { success: true };
           
+        case 'getSyncState': {
+          const { state, error } = await options.getSyncState();
+          return { state, error: error?.message ?? null };
+        }
+
+        case 'enableSync':
+          await options.enableSync({ force: !!message.force });
+          return { success: true };
+
+        case 'disableSync':
+          await options.disableSync();
+          return { success: true };
+
+        case 'resetSync':
+          await options.resetSync();
+          return { success: true };
+
+        case 'getGistConfig': {
+          const { gistToken, gistId } = await getGistConfig();
+          // The token never leaves the worker
+          return { gistId, hasToken: !!gistToken };
+        }
+
+        case 'setGistConfig':
+          await setGistConfig(message.config);
+          return { success: true };
+
+        case 'backupToGist': {
+          const provider = await getGistProvider();
+          const revision = await options.backupOptions(provider);
+          await gistBackedUp(provider);
+          return { revision, gistId: provider.gistId };
+        }
+
+        case 'listGistBackups': {
+          const provider = await getGistProvider();
+          return { revisions: await provider.revisions() };
+        }
+
+        case 'restoreFromGist':
+          await options.restoreOptions(await getGistProvider(), message.revision);
+          await reapplyProfile();
+          await optionsChanged();
+          return { success: true };
+
         case 'resetOptions':
-          await chrome.storage.local.clear();
-          options = getDefaultOptions();
-          await chrome.storage.local.set(options);
+          await options.resetOptions();
           await applyProfile('system');
+          await optionsChanged();
           return { success: true };
           
         default:
@@ -425,6 +361,38 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   return true; // Keep message channel open for async response
 });
 
+// Worker state accessors for the background modules
+const workerContext: WorkerContext = {
+  getOptions: async () => {
+    await options.ready;
+    return options.getAll();
+  },
+  setOptions: (changes: Partial<OmegaOptions>) => options.set(changes),
+  getCurrentProfileName: () => options.getCurrentProfileName(),
+  applyProfile,
+};
+
+// Answer proxy authentication challenges
+initAuthListener(workerContext);
+
+// Track failed requests for the popup
+initRequestMonitor();
+
+// Refresh online profile content on a schedule
+initDownloadScheduler(workerContext);
+
+// Retry pushing synced options after the rate limit, even if the worker was stopped
+options.initSyncAlarm();
+
+// Explain which rules match a page or link from the context menu
+initInspectMenu(workerContext);
+
+// Cycle profiles by clicking the action when quick switch is enabled
+initQuickSwitch(workerContext);
+
+// Watch for other apps taking over the proxy settings
+initProxySettingsMonitor(workerContext);
+
 // Initialize on startup
 init();
 
@@ -0,0 +1,130 @@
+/**
+ * Request inspector module
+ *
+ * Explains how a URL is resolved by the current profile:
+ * - Context menu entries for pages, frames and links (option -showInspectMenu)
+ * - Walks the profile chain and records the matched rule of every hop
+ * - The popup shows the result for the tab the menu was used in, even with quick switch
+ */
+
+import type { OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+import { message } from './i18n';
+import { inspectUrl, type InspectResult } from '../lib/utils/inspect';
+import { evaluatePacOffscreen } from './offscreen';
+import { requirePopup } from './quickswitch';
+import type { WorkerContext } from './context';
+
+/** Context menu item IDs and the message keys of their titles */
+const INSPECT_MENUS = [
+  { id: 'inspectPage', contexts: ['page'], title: 'contextMenu_inspectPage' },
+  { id: 'inspectFrame', contexts: ['frame'], title: 'contextMenu_inspectFrame' },
+  { id: 'inspectLink', contexts: ['link'], title: 'contextMenu_inspectLink' },
+] as const;
+
+/** Latest inspect result by tab ID, until the popup shows it */
+const results = new Map<number, Promise<InspectResult>>();
+
+/**
+ * Get the inspect result for a tab, forgetting it afterwards
+ */
+export async function takeInspectResult(tabId: number): Promise<InspectResult | null> {
+  const result = results.get(tabId);
+  if (!result) return null;
+
+  forgetInspectResult(tabId);
+  const title = chrome.runtime.getManifest().action?.default_title ?? '';
+  chrome.action.setTitle({ title, tabId }).catch(() => {});
+  return result;
+}
+
+/**
+ * Drop the inspect result of a tab, letting quick switch take over clicks again
+ */
+function forgetInspectResult(tabId: number): void {
+  if (!results.delete(tabId)) return;
+  requirePopup(tabId, false).catch((e) => {
+    console.warn('Failed to restore quick switch:', e);
+  });
+}
+
+/**
+ * Show or hide the inspect context menu entries according to -showInspectMenu
+ */
+export async function updateInspectMenu(options: OmegaOptions): Promise<void> {
+  if (!chrome.contextMenus) return;
+
+  await chrome.contextMenus.removeAll();
+  if (options['-showInspectMenu'] === false) return;
+
+  for (const menu of INSPECT_MENUS) {
+    chrome.contextMenus.create({
+      id: menu.id,
+      title: message(options, menu.title),
+      contexts: [...menu.contexts],
+    });
+  }
+}
+
+/**
+ * Inspect a URL for a tab and open the popup to show the result
+ */
+async function inspect(context: WorkerContext, tabId: number, url: string): Promise<void> {
+  const options = await context.getOptions();
+  if (!options) return;
+
+  // PAC scripts are evaluated while the popup opens, which must not wait for them
+  const result = inspectUrl(options, context.getCurrentProfileName(), url, evaluatePacOffscreen);
+  result.catch((e) => console.error('Failed to inspect URL:', e));
+  results.set(tabId, result);
+  // Quick switch removes the popup, which is needed to show the result
+  await requirePopup(tabId, true);
+
+  try {
+    await chrome.action.openPopup();
+  } catch (e) {
+    // Not supported by every browser version - hint at the result on the action instead
+    console.debug('Failed to open popup for inspect result:', e);
+    const title = message(options, 'browserAction_titleInspect').replace('$URL$', url);
+    await chrome.action.setTitle({ title, tabId });
+  }
+}
+
+/**
+ * Initialize the inspect context menu listener
+ *
+ * The menu entries themselves are created by updateInspectMenu() once options are loaded.
+ */
+export function initInspectMenu(context: WorkerContext): void {
+  if (!chrome.contextMenus) {
+    console.warn('contextMenus API is not available, inspect menu disabled');
+    return;
+  }
+
+  chrome.contextMenus.onClicked.addListener((info, tab) => {
+    if (tab?.id === undefined) return;
+
+    let url: string | undefined;
+    switch (info.menuItemId) {
+      case 'inspectPage':
+        url = info.pageUrl;
+        break;
+      case 'inspectFrame':
+        url = info.frameUrl;
+        break;
+      case 'inspectLink':
+        url = info.linkUrl;
+        break;
+      default:
+        return;
+    }
+    if (!url) return;
+
+    inspect(context, tab.id, url).catch((e) => {
+      console.error('Failed to inspect URL:', e);
+    });
+  });
+
+  chrome.tabs.onRemoved.addListener(forgetInspectResult);
+
+  console.log('Inspect menu listener initialized');
+}
@@ -0,0 +1,57 @@
+/**
+ * PAC script evaluation for the background worker
+ *
+ * The worker may not evaluate code and cannot embed the PAC sandbox page itself:
+ * - An offscreen document is created on first use to host the sandbox iframe
+ * - Scripts are sent to it with chrome.runtime messages
+ *
+ * Requires the offscreen API (Chrome 109+, the minimum version in the manifest).
+ */
+
+import type { PacEvaluator } from '@dev-zapi/switchyalpha-pac';
+import type { PacEvaluateMessage } from '../lib/utils/pac-sandbox';
+
+/** Path of the offscreen document */
+const OFFSCREEN_PATH = 'src/offscreen/index.html';
+
+let creating: Promise<void> | null = null;
+
+/**
+ * Create the offscreen document unless it exists already
+ */
+function ensureOffscreenDocument(): Promise<void> {
+  creating ??= chrome.offscreen
+    .createDocument({
+      url: OFFSCREEN_PATH,
+      reasons: [chrome.offscreen.Reason.IFRAME_SCRIPTING],
+      justification: 'Evaluate PAC scripts in the sandbox page',
+    })
+    .catch((e) => {
+      // Still open from before the worker was restarted
+      const errorMessage = e instanceof Error ? e.message : String(e);
+      if (errorMessage.includes('single offscreen document')) return;
+      creating = null;
+      throw e;
+    });
+  return creating;
+}
+
+/**
+ * Evaluate a PAC script for a URL in the sandbox of the offscreen document
+ *
+ * @returns the PAC result, e.g. "PROXY example.com:8080"
+ */
+export const evaluatePacOffscreen: PacEvaluator = async (script, url) => {
+  if (!chrome.offscreen) {
+    throw new Error('offscreen API is not available, cannot evaluate PAC scripts');
+  }
+  await ensureOffscreenDocument();
+
+  const message: PacEvaluateMessage = { action: 'evaluatePacScript', script, url };
+  const response: { result?: string; error?: string } | undefined =
+    await chrome.runtime.sendMessage(message);
+  if (response?.error !== undefined) {
+    throw new Error(response.error);
+  }
+  return response?.result ?? '';
+};
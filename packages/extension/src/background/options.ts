@@ -0,0 +1,202 @@
+/**
+ * Options for the background worker
+ *
+ * Extends the core Options class to apply profiles to chrome.proxy:
+ * - Options and worker state are kept in chrome.storage.local
+ * - Options can be synced between browsers through chrome.storage.sync, retried by an alarm
+ * - Fixed profiles use fixed_servers rules where possible
+ * - Virtual profiles are applied exactly like their target
+ * - Other profiles are compiled to a PAC script, or use their own PAC URL/script
+ * - Requests fail if the PAC script cannot be generated, instead of keeping the old proxy
+ */
+
+import { Options, OptionsSync, type OptionsConfig } from '@dev-zapi/switchyalpha-core';
+import {
+  fixedServersRules,
+  generatePacScript,
+  UNREACHABLE_PROXY,
+  type FixedProfile,
+  type PacProfile,
+  type Profile,
+  type VirtualProfile,
+} from '@dev-zapi/switchyalpha-pac';
+import { ChromeStorage, STATE_PREFIX } from '../lib/utils/chrome-storage';
+import { setProxyConfig } from './proxy';
+
+/** Name of the alarm retrying to push synced options */
+export const SYNC_ALARM = 'syncOptions';
+
+/** Delay before retrying to push synced options (minutes), after the write rate limit */
+const SYNC_RETRY_DELAY = 1;
+
+/** Proxy configuration failing all requests, for profiles that cannot be applied */
+export const FAIL_CLOSED_CONFIG: chrome.proxy.ProxyConfig = {
+  mode: 'pac_script',
+  pacScript: {
+    data: `function FindProxyForURL(url, host) {\n  return "${UNREACHABLE_PROXY}";\n}`,
+  },
+};
+
+export class ChromeOptions extends Options {
+  constructor(config: OptionsConfig = {}) {
+    super({
+      storage: new ChromeStorage('local'),
+      state: new ChromeStorage('local', STATE_PREFIX),
+      sync: chrome.storage.sync ? new OptionsSync(new ChromeStorage('sync')) : undefined,
+      ...config,
+    });
+  }
+
+  /**
+   * Initialize the sync retry alarm listener
+   *
+   * Must be called synchronously at startup so the alarm can wake the worker.
+   */
+  initSyncAlarm(): void {
+    chrome.alarms?.onAlarm.addListener((alarm) => {
+      if (alarm.name !== SYNC_ALARM) return;
+      Promise.resolve(this.ready)
+        .then(() => this.flushSync())
+        .catch((e) => {
+          console.error('Failed to push synced options:', e);
+        });
+    });
+  }
+
+  /**
+   * Schedule the alarm while options wait to be pushed
+   *
+   * The worker may be stopped before the retry timer of the sync fires.
+   */
+  protected override syncPendingChanged(keys: string[]): void {
+    super.syncPendingChanged(keys);
+    if (!chrome.alarms) return;
+
+    const scheduled =
+      keys.length > 0
+        ? chrome.alarms.create(SYNC_ALARM, { delayInMinutes: SYNC_RETRY_DELAY })
+        : chrome.alarms.clear(SYNC_ALARM);
+    Promise.resolve(scheduled).catch((e) => {
+      console.warn('Failed to schedule the sync alarm:', e);
+    });
+  }
+
+  /**
+   * Make a profile the current profile and set the proxy settings for it
+   *
+   * @throws if the PAC script cannot be generated, after failing all requests
+   */
+  override async applyProfile(name: string): Promise<void> {
+    await super.applyProfile(name);
+
+    let config: chrome.proxy.ProxyConfig | null;
+    try {
+      config = this.proxyConfig(this.profile(name)!);
+    } catch (e) {
+      await setProxyConfig(FAIL_CLOSED_CONFIG);
+      throw e;
+    }
+    if (config) {
+      await setProxyConfig(config);
+    }
+  }
+
+  /**
+   * Get the proxy configuration for a profile, null if it cannot be applied
+   *
+   * @throws if the PAC script cannot be generated
+   */
+  proxyConfig(profile: Profile): chrome.proxy.ProxyConfig | null {
+    switch (profile.profileType) {
+      case 'DirectProfile':
+        return { mode: 'direct' };
+
+      case 'SystemProfile':
+        return { mode: 'system' };
+
+      case 'FixedProfile': {
+        const rules = fixedServersRules(profile as FixedProfile);
+        if (rules) {
+          console.log('Applying fixed proxy:', rules);
+          return { mode: 'fixed_servers', rules };
+        }
+        // Some bypass conditions or proxies cannot be expressed as fixed_servers rules
+        return this.pacScriptConfig(profile);
+      }
+
+      case 'PacProfile': {
+        const pac = profile as PacProfile;
+        if (pac.pacUrl) {
+          // Use PAC URL directly
+          console.log('Applying PAC URL:', pac.pacUrl);
+          return { mode: 'pac_script', pacScript: { url: pac.pacUrl } };
+        }
+        if (pac.pacScript) {
+          console.log('Applying inline PAC script');
+          return { mode: 'pac_script', pacScript: { data: pac.pacScript } };
+        }
+        console.warn('PAC profile has no URL or script:', profile.name);
+        return null;
+      }
+
+      case 'VirtualProfile': {
+        const target = this.virtualTarget(profile as VirtualProfile);
+        if (!target) {
+          console.warn('Virtual profile has no valid target:', profile.name);
+          return null;
+        }
+        return this.proxyConfig(target);
+      }
+
+      case 'SwitchProfile':
+      case 'RuleListProfile':
+      case 'AutoProxyRuleListProfile':
+        return this.pacScriptConfig(profile);
+
+      default:
+        console.warn('Unknown profile type:', (profile as Profile).profileType);
+        return null;
+    }
+  }
+
+  /**
+   * Follow virtual profiles to the profile they act as, null if missing or looping
+   */
+  private virtualTarget(profile: VirtualProfile): Profile | null {
+    const seen = new Set<string>();
+    let target: Profile | undefined = profile;
+    while (target?.profileType === 'VirtualProfile') {
+      if (seen.has(target.name)) return null;
+      seen.add(target.name);
+      target = this.profile(target.defaultProfileName);
+    }
+    return target ?? null;
+  }
+
+  /**
+   * Get a proxy configuration with the generated PAC script for a profile
+   */
+  private pacScriptConfig(profile: Profile): chrome.proxy.ProxyConfig {
+    let pacScript: string;
+    try {
+      pacScript = generatePacScript(
+        this._options as unknown as Record<string, Profile>,
+        profile.name,
+        { includeComments: true }
+      );
+    } catch (e) {
+      console.error('Failed to generate PAC script:', e);
+      const message = e instanceof Error ? e.message : String(e);
+      throw new Error(`Cannot generate the PAC script for ${profile.name}: ${message}`);
+    }
+
+    console.log('Applying PAC script for', profile.profileType, profile.name);
+    console.log('PAC script length:', pacScript.length);
+
+    return { mode: 'pac_script', pacScript: { data: pacScript } };
+  }
+
+  override toString(): string {
+    return '<ChromeOptions>';
+  }
+}
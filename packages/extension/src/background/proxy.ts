@@ -0,0 +1,196 @@
+/**
+ * Proxy settings module
+ *
+ * Applies proxy configurations and watches for changes made by others:
+ * - Remembers the configuration last set by applyProfile
+ * - Detects lost control or changed values via chrome.proxy.settings.onChange
+ * - Re-applies the current profile if -revertProxyChanges is set, otherwise
+ *   flags a conflict shown on the icon and in the popup
+ */
+
+import type { OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+import { message } from './i18n';
+import { setActionBadge } from './icon';
+import type { WorkerContext } from './context';
+
+/** Badge background color while the proxy settings are in conflict */
+const CONFLICT_BADGE_COLOR = '#d32f2f';
+
+/** Maximum number of reverts within REVERT_WINDOW, to avoid fighting another app forever */
+const MAX_REVERTS = 3;
+
+/** Time window for counting reverts (ms) */
+const REVERT_WINDOW = 60 * 1000;
+
+/**
+ * Who is in control of the proxy settings instead of us
+ *
+ * - app: another extension or app with higher precedence
+ * - policy: enterprise policies, no extension can control the settings
+ * - unknown: the settings were changed or cleared otherwise
+ */
+export type ProxyConflictReason = 'app' | 'policy' | 'unknown';
+
+/**
+ * Proxy settings that differ from what was last applied
+ */
+export interface ProxyConflict {
+  reason: ProxyConflictReason;
+  levelOfControl: chrome.types.ChromeSettingGetResultDetails['levelOfControl'];
+}
+
+/** Configuration last set by this extension */
+let lastApplied: chrome.proxy.ProxyConfig | null = null;
+
+/** Current conflict, if any */
+let conflict: ProxyConflict | null = null;
+
+/** Times of recent reverts */
+let revertTimes: number[] = [];
+
+/**
+ * Set the proxy configuration and remember it for conflict detection
+ */
+export async function setProxyConfig(value: chrome.proxy.ProxyConfig): Promise<void> {
+  lastApplied = value;
+  await chrome.proxy.settings.set({ value, scope: 'regular' });
+}
+
+/**
+ * Get the effective proxy settings of regular windows
+ */
+function getProxySettings(): Promise<chrome.types.ChromeSettingGetResultDetails> {
+  return new Promise((resolve) => {
+    chrome.proxy.settings.get({ incognito: false }, resolve);
+  });
+}
+
+/**
+ * Check if the effective proxy configuration matches an applied one
+ *
+ * Properties added by the browser (e.g. pacScript.mandatory) are ignored.
+ */
+export function isSameProxyConfig(applied: unknown, actual: unknown): boolean {
+  if (applied === undefined) return true;
+  if (applied === null || typeof applied !== 'object') return applied === actual;
+  if (actual === null || typeof actual !== 'object') return false;
+
+  if (Array.isArray(applied)) {
+    return (
+      Array.isArray(actual) &&
+      applied.length === actual.length &&
+      applied.every((item, i) => isSameProxyConfig(item, actual[i]))
+    );
+  }
+
+  return Object.entries(applied).every(([key, value]) =>
+    isSameProxyConfig(value, (actual as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * Find out if the effective proxy settings conflict with the applied configuration
+ */
+export function detectConflict(
+  details: Pick<chrome.types.ChromeSettingGetResultDetails, 'levelOfControl' | 'value'>,
+  applied: chrome.proxy.ProxyConfig | null
+): ProxyConflict | null {
+  const { levelOfControl } = details;
+  switch (levelOfControl) {
+    case 'controlled_by_other_extensions':
+      return { reason: 'app', levelOfControl };
+    case 'not_controllable':
+      return { reason: 'policy', levelOfControl };
+    case 'controllable_by_this_extension':
+      // Our settings were removed
+      return applied ? { reason: 'unknown', levelOfControl } : null;
+    case 'controlled_by_this_extension':
+      return !applied || isSameProxyConfig(applied, details.value)
+        ? null
+        : { reason: 'unknown', levelOfControl };
+    default:
+      return { reason: 'unknown', levelOfControl };
+  }
+}
+
+/**
+ * Get the current proxy settings conflict
+ */
+export function getProxyConflict(): ProxyConflict | null {
+  return conflict;
+}
+
+/**
+ * Show or clear the conflict badge and title on the action
+ */
+async function setConflict(
+  options: OmegaOptions | null,
+  value: ProxyConflict | null
+): Promise<void> {
+  const changed = conflict?.reason !== value?.reason;
+  conflict = value;
+  if (!changed) return;
+
+  if (value) {
+    console.warn('Proxy settings conflict:', value.reason, value.levelOfControl);
+  }
+  await setActionBadge(value ? '!' : '', CONFLICT_BADGE_COLOR);
+  // Only the global title is changed, titles set for single tabs are kept
+  await chrome.action.setTitle({
+    title: value
+      ? message(options, 'browserAction_titleExternalProxy')
+      : (chrome.runtime.getManifest().action?.default_title ?? ''),
+  });
+}
+
+/**
+ * Check if another revert is allowed, recording it if so
+ */
+function allowRevert(now = Date.now()): boolean {
+  revertTimes = revertTimes.filter((time) => now - time < REVERT_WINDOW);
+  if (revertTimes.length >= MAX_REVERTS) return false;
+  revertTimes.push(now);
+  return true;
+}
+
+/**
+ * Evaluate the effective proxy settings, reverting them if configured
+ */
+export async function checkProxySettings(
+  context: WorkerContext,
+  details: chrome.types.ChromeSettingGetResultDetails
+): Promise<void> {
+  const options = await context.getOptions();
+  let detected = detectConflict(details, lastApplied);
+
+  if (detected && detected.reason !== 'policy') {
+    if (options?.['-revertProxyChanges'] && allowRevert()) {
+      console.log('Reverting proxy changes made by others');
+      await context.applyProfile(context.getCurrentProfileName());
+      // Applying has no effect if another app has higher precedence
+      detected = detectConflict(await getProxySettings(), lastApplied);
+    }
+  }
+
+  await setConflict(options, detected);
+}
+
+/**
+ * Check the effective proxy settings after a profile has been applied on startup
+ */
+export async function updateProxySettingsState(context: WorkerContext): Promise<void> {
+  await checkProxySettings(context, await getProxySettings());
+}
+
+/**
+ * Initialize the proxy settings change listener
+ */
+export function initProxySettingsMonitor(context: WorkerContext): void {
+  chrome.proxy.settings.onChange.addListener((details) => {
+    checkProxySettings(context, details).catch((e) => {
+      console.error('Failed to check proxy settings:', e);
+    });
+  });
+
+  console.log('Proxy settings monitor initialized');
+}
@@ -0,0 +1,110 @@
+/**
+ * Quick switch module
+ *
+ * Cycles through -quickSwitchProfiles when the action is clicked:
+ * - Enabled by -enableQuickSwitch with at least 2 cycled profiles
+ * - Removes the action popup so clicks reach chrome.action.onClicked
+ * - Brings the popup back while a tab has something to show in it (e.g. an inspect result)
+ * - The quickSwitch keyboard command cycles as well
+ */
+
+import type { OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+import type { WorkerContext } from './context';
+
+/** Keyboard command that switches to the next profile */
+export const QUICK_SWITCH_COMMAND = 'quickSwitch';
+
+/**
+ * Get the profiles cycled by quick switch, or null if quick switch is off
+ */
+export function quickSwitchProfiles(options: OmegaOptions): string[] | null {
+  const profiles = options['-quickSwitchProfiles'] ?? [];
+  if (!options['-enableQuickSwitch'] || profiles.length < 2) {
+    return null;
+  }
+  return profiles;
+}
+
+/**
+ * Get the profile after the current one, starting over at the end of the list
+ */
+export function nextQuickSwitchProfile(profiles: string[], current: string): string | undefined {
+  const index = profiles.indexOf(current);
+  return profiles[(index + 1) % profiles.length];
+}
+
+/** Whether quick switch is enabled, as of the last updateQuickSwitch() */
+let quickSwitchEnabled = false;
+
+/** Tabs waiting to show something in the popup */
+const popupTabs = new Set<number>();
+
+/**
+ * Set the action popup, removed only while quick switch is enabled and no tab needs it
+ */
+function setActionPopup(): Promise<void> {
+  const popup =
+    quickSwitchEnabled && popupTabs.size === 0
+      ? ''
+      : (chrome.runtime.getManifest().action?.default_popup ?? '');
+  return chrome.action.setPopup({ popup });
+}
+
+/**
+ * Enable or disable the action popup according to the quick switch options
+ */
+export async function updateQuickSwitch(options: OmegaOptions): Promise<void> {
+  quickSwitchEnabled = !!quickSwitchProfiles(options);
+  await setActionPopup();
+}
+
+/**
+ * Keep the action popup while a tab has something to show in it
+ *
+ * Clicking the action opens the popup instead of switching profiles until released.
+ */
+export async function requirePopup(tabId: number, required: boolean): Promise<void> {
+  if (required) {
+    popupTabs.add(tabId);
+  } else {
+    popupTabs.delete(tabId);
+  }
+  await setActionPopup();
+}
+
+/**
+ * Apply the next quick switch profile
+ */
+async function quickSwitch(context: WorkerContext): Promise<void> {
+  const options = await context.getOptions();
+  if (!options) return;
+
+  const profiles = quickSwitchProfiles(options);
+  if (!profiles) return;
+
+  const next = nextQuickSwitchProfile(profiles, context.getCurrentProfileName());
+  if (next) {
+    console.log('Quick switch to', next);
+    await context.applyProfile(next);
+  }
+}
+
+/**
+ * Initialize the action click and keyboard command listeners
+ *
+ * The popup is removed by updateQuickSwitch() once options are loaded.
+ */
+export function initQuickSwitch(context: WorkerContext): void {
+  const run = () => {
+    quickSwitch(context).catch((e) => {
+      console.error('Quick switch failed:', e);
+    });
+  };
+
+  // Only fired while the popup is removed
+  chrome.action.onClicked.addListener(run);
+
+  chrome.commands?.onCommand.addListener((command) => {
+    if (command === QUICK_SWITCH_COMMAND) run();
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * Failed request tracking module
+ *
+ * Records network errors per tab so the popup can offer rules for failing hosts:
+ * - Listens to webRequest.onErrorOccurred for connection errors and timeouts
+ * - Groups failures by host, resetting when the tab navigates to a new page
+ * - Shows the number of failing hosts as a badge on the action icon
+ *
+ * Records are kept in memory and are lost when the service worker restarts,
+ * so badges left by a previous worker are cleared on startup.
+ */
+
+import { setActionBadge } from './icon';
+
+/** Badge background color for failing hosts */
+const BADGE_COLOR = '#e53935';
+
+/**
+ * Network errors that suggest a host needs (another) proxy
+ *
+ * Errors caused by the browser or the page itself (e.g. net::ERR_ABORTED,
+ * net::ERR_BLOCKED_BY_CLIENT) are not tracked.
+ */
+export const TRACKED_ERRORS: ReadonlySet<string> = new Set([
+  'net::ERR_TIMED_OUT',
+  'net::ERR_CONNECTION_TIMED_OUT',
+  'net::ERR_CONNECTION_RESET',
+  'net::ERR_CONNECTION_CLOSED',
+  'net::ERR_CONNECTION_REFUSED',
+  'net::ERR_CONNECTION_ABORTED',
+  'net::ERR_CONNECTION_FAILED',
+  'net::ERR_EMPTY_RESPONSE',
+  'net::ERR_NAME_NOT_RESOLVED',
+  'net::ERR_ADDRESS_UNREACHABLE',
+  'net::ERR_SSL_PROTOCOL_ERROR',
+  'net::ERR_QUIC_PROTOCOL_ERROR',
+  'net::ERR_PROXY_CONNECTION_FAILED',
+  'net::ERR_TUNNEL_CONNECTION_FAILED',
+]);
+
+/**
+ * Failures of a host within a tab
+ */
+export interface FailedHost {
+  host: string;
+  /** Number of failed requests */
+  count: number;
+  /** Last error, e.g. net::ERR_CONNECTION_RESET */
+  error: string;
+}
+
+/** Failing hosts by tab ID, in order of first failure */
+const failedHosts = new Map<number, Map<string, FailedHost>>();
+
+/**
+ * Update the badge of a tab with its number of failing hosts
+ *
+ * Without failures, the tab shows the global badge again, e.g. a proxy conflict.
+ */
+function updateBadge(tabId: number): Promise<void> {
+  const count = failedHosts.get(tabId)?.size ?? 0;
+  return setActionBadge(count > 0 ? String(count) : null, BADGE_COLOR, tabId);
+}
+
+/**
+ * Reset badges of tabs whose failures were recorded by a previous worker
+ */
+async function clearStaleBadges(): Promise<void> {
+  const tabs = await chrome.tabs.query({});
+  for (const tab of tabs) {
+    if (tab.id !== undefined && !failedHosts.has(tab.id)) {
+      await updateBadge(tab.id);
+    }
+  }
+}
+
+/**
+ * Record a failed request
+ *
+ * @returns true if the failure was tracked
+ */
+export function recordFailure(tabId: number, url: string, error: string): boolean {
+  if (tabId < 0 || !TRACKED_ERRORS.has(error)) {
+    return false;
+  }
+
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return false;
+  }
+  if (!host) return false;
+
+  let hosts = failedHosts.get(tabId);
+  if (!hosts) {
+    hosts = new Map();
+    failedHosts.set(tabId, hosts);
+  }
+
+  const existing = hosts.get(host);
+  if (existing) {
+    existing.count++;
+    existing.error = error;
+  } else {
+    hosts.set(host, { host, count: 1, error });
+    updateBadge(tabId).catch(() => {});
+  }
+  return true;
+}
+
+/**
+ * Get the failing hosts of a tab
+ */
+export function getFailedHosts(tabId: number): FailedHost[] {
+  return [...(failedHosts.get(tabId)?.values() ?? [])].map((failed) => ({ ...failed }));
+}
+
+/**
+ * Forget failures of a tab
+ *
+ * @param hosts Only forget these hosts (defaults to all hosts)
+ */
+export async function clearFailedHosts(tabId: number, hosts?: string[]): Promise<void> {
+  const tabHosts = failedHosts.get(tabId);
+  if (!tabHosts) return;
+
+  if (hosts) {
+    for (const host of hosts) {
+      tabHosts.delete(host);
+    }
+  } else {
+    tabHosts.clear();
+  }
+  if (tabHosts.size === 0) {
+    failedHosts.delete(tabId);
+  }
+  await updateBadge(tabId);
+}
+
+/**
+ * Initialize failed request listeners
+ */
+export function initRequestMonitor(): void {
+  if (!chrome.webRequest?.onErrorOccurred) {
+    console.warn('webRequest.onErrorOccurred is not available, request monitor disabled');
+    return;
+  }
+
+  const filter = { urls: ['<all_urls>'] };
+
+  // A new page starts with a clean record
+  chrome.webRequest.onBeforeRequest.addListener((details) => {
+    if (details.type === 'main_frame' && failedHosts.has(details.tabId)) {
+      clearFailedHosts(details.tabId).catch(() => {});
+    }
+  }, filter);
+
+  chrome.webRequest.onErrorOccurred.addListener((details) => {
+    recordFailure(details.tabId, details.url, details.error);
+  }, filter);
+
+  chrome.tabs.onRemoved.addListener((tabId) => {
+    failedHosts.delete(tabId);
+  });
+
+  clearStaleBadges().catch((e) => {
+    console.warn('Failed to clear stale badges:', e);
+  });
+
+  console.log('Request monitor initialized');
+}
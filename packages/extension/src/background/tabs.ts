@@ -4,6 +4,13 @@
  * Listens for tab changes and URL updates to trigger icon updates
  */
 
+import {
+  Profiles,
+  requestFromUrl,
+  type OmegaOptions,
+  type Profile,
+} from '@dev-zapi/switchyalpha-pac';
+
 /** URLs that should not trigger icon updates */
 const NON_MATCHABLE_SCHEMES = [
   'chrome:',
@@ -69,6 +76,82 @@ export async function getAllTabs(): Promise<Array<{ tabId: number; url: string }
   }
 }
 
+/**
+ * Get the final proxy result of a profile for a URL, to compare before and after changes
+ *
+ * Follows switch and rule list profiles down to the non-inclusive profile:
+ * - Fixed and direct profiles give their PAC result, e.g. "PROXY example.com:8080"
+ * - PAC and system profiles are identified by name (and script revision), their
+ *   result cannot be evaluated in the worker
+ *
+ * @returns null if the URL cannot be resolved, e.g. a profile is missing
+ */
+export function resolveProxyResult(
+  options: OmegaOptions,
+  profileName: string,
+  url: string
+): string | null {
+  try {
+    const profiles = options as unknown as Record<string, Profile>;
+    const hops = Profiles.matchChain(profileName, requestFromUrl(url), profiles);
+    const last = hops[hops.length - 1];
+    if (!last || Profiles.isInclusive(last.profile)) return null;
+
+    switch (last.profile.profileType) {
+      case 'PacProfile':
+        return `PAC ${last.profile.name} ${last.profile.revision ?? ''}`;
+      case 'SystemProfile':
+        return 'SYSTEM';
+      default:
+        return last.result ? Profiles.pacResult(last.result.proxy) : null;
+    }
+  } catch (e) {
+    console.debug('Failed to resolve URL:', e);
+    return null;
+  }
+}
+
+/**
+ * Resolve the URL of every matchable tab, e.g. to the proxy used for it
+ */
+export async function resolveTabs(
+  resolve: (url: string) => string | null
+): Promise<Map<number, string | null>> {
+  const resolved = new Map<number, string | null>();
+  for (const { tabId, url } of await getAllTabs()) {
+    if (isMatchableUrl(url)) {
+      resolved.set(tabId, resolve(url));
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Reload the tabs that resolve differently than before
+ *
+ * @param before - Result of resolveTabs() before the change
+ * @returns IDs of the reloaded tabs
+ */
+export async function reloadChangedTabs(
+  before: Map<number, string | null>,
+  resolve: (url: string) => string | null
+): Promise<number[]> {
+  const after = await resolveTabs(resolve);
+  const changed = [...after]
+    .filter(([tabId, result]) => before.has(tabId) && before.get(tabId) !== result)
+    .map(([tabId]) => tabId);
+
+  for (const tabId of changed) {
+    try {
+      await chrome.tabs.reload(tabId);
+    } catch (e) {
+      // Tab might have been closed
+      console.debug('Failed to reload tab:', e);
+    }
+  }
+  return changed;
+}
+
 /**
  * Initialize tab listeners
  *
@@ -120,6 +120,8 @@ function t(key: TranslationKey, params?: TranslationParams, defaultValue?: strin
     } else {
       Object.entries(params).forEach(([k, v]) => {
         message = message.replace(`{${k}}`, String(v));
+        // Chrome-style $NAME$ placeholders
+        message = message.replace(`$${k}$`, String(v));
         message = message.replace(`$${k}`, String(v));
       });
     }
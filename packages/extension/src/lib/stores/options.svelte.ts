@@ -6,7 +6,9 @@
 
 import type { Profile, OmegaOptions } from '@dev-zapi/switchyalpha-pac';
 import { Profiles } from '@dev-zapi/switchyalpha-pac';
+import { SCHEMA_VERSION } from '@dev-zapi/switchyalpha-core';
 import { getDependentProfiles as getDependentProfilesUtil } from '../utils/profile-deps';
+import { ChromeStorage, STATE_PREFIX } from '../utils/chrome-storage';
 
 // Store state
 let options = $state<OmegaOptions | null>(null);
@@ -16,6 +18,9 @@ let isLoading = $state(true);
 let isDirty = $state(false);
 let error = $state<string | null>(null);
 
+// Set once storage changes are followed, for the lifetime of the page
+let isWatching = false;
+
 /**
  * Get profiles array from options (excluding builtin profiles)
  */
@@ -47,6 +52,7 @@ async function init(): Promise<void> {
         originalOptions = JSON.parse(JSON.stringify(response.options));
         currentProfileName = response.currentProfileName || 'system';
       }
+      watchChanges();
     } else {
       // Development mode - use defaults
       options = getDefaultOptions();
@@ -62,12 +68,46 @@ async function init(): Promise<void> {
   }
 }
 
+/**
+ * Follow changes made elsewhere, e.g. rules added from the popup or downloads
+ *
+ * Options edited on this page are kept, they replace the stored ones when applied.
+ */
+function watchChanges(): void {
+  if (isWatching || !chrome.storage) return;
+  isWatching = true;
+
+  new ChromeStorage('local').watch(null, (changes) => {
+    if (!options || !originalOptions) return;
+    const current = options as Record<string, unknown>;
+    const original = originalOptions as Record<string, unknown>;
+
+    for (const [key, value] of Object.entries(changes)) {
+      // Only settings (-) and profiles (+) are options
+      if (key[0] !== '-' && key[0] !== '+') continue;
+      if (JSON.stringify(current[key]) !== JSON.stringify(original[key])) continue;
+
+      if (value === undefined) {
+        delete current[key];
+        delete original[key];
+      } else {
+        current[key] = value;
+        original[key] = JSON.parse(JSON.stringify(value));
+      }
+    }
+  });
+
+  new ChromeStorage('local', STATE_PREFIX).watch('currentProfileName', (changes) => {
+    currentProfileName = (changes.currentProfileName as string) || 'system';
+  });
+}
+
 /**
  * Get default options for development/testing
  */
 function getDefaultOptions(): OmegaOptions {
   return {
-    '-schemaVersion': 2,
+    '-schemaVersion': SCHEMA_VERSION,
     '-startupProfileName': '',
     '-quickSwitchProfiles': [],
     '-refreshOnProfileChange': false,
@@ -75,6 +115,7 @@ function getDefaultOptions(): OmegaOptions {
     '-revertProxyChanges': false,
     '-showInspectMenu': true,
     '-downloadInterval': 1440,
+    '-pacDownloadInterval': 60,
     '+proxy': Profiles.create('proxy', 'FixedProfile'),
     '+auto switch': Profiles.create('auto switch', 'SwitchProfile'),
   } as OmegaOptions;
@@ -150,8 +191,9 @@ async function applyChanges(): Promise<boolean> {
   if (!isDirty || !options) return true;
 
   try {
+    let response: { error?: string } | undefined;
     if (typeof chrome !== 'undefined' && chrome.runtime) {
-      await chrome.runtime.sendMessage({
+      response = await chrome.runtime.sendMessage({
         action: 'setOptions',
         options,
       });
@@ -159,6 +201,11 @@ async function applyChanges(): Promise<boolean> {
     // Update originalOptions to match current state
     originalOptions = JSON.parse(JSON.stringify(options));
     isDirty = false;
+    if (response?.error) {
+      // Saved, but the current profile could not be applied and requests fail
+      error = response.error;
+      return false;
+    }
     return true;
   } catch (e) {
     error = e instanceof Error ? e.message : 'Failed to save options';
@@ -219,10 +266,16 @@ async function revertChanges(): Promise<void> {
 async function applyProfile(name: string): Promise<boolean> {
   try {
     if (typeof chrome !== 'undefined' && chrome.runtime) {
-      await chrome.runtime.sendMessage({
+      const response = await chrome.runtime.sendMessage({
         action: 'applyProfile',
         profileName: name,
       });
+      if (response?.error) {
+        // The profile is current, but requests fail until it is fixed
+        currentProfileName = name;
+        error = response.error;
+        return false;
+      }
     }
     currentProfileName = name;
     return true;
@@ -232,6 +285,29 @@ async function applyProfile(name: string): Promise<boolean> {
   }
 }
 
+/**
+ * Download profiles with an update URL now, e.g. PAC scripts
+ *
+ * Changes are applied first, as the background downloads the saved profiles.
+ * Downloaded content comes back through the storage watch.
+ *
+ * @returns error messages by profile name
+ */
+async function updateProfiles(names: string[]): Promise<Record<string, string>> {
+  if (!(await applyChanges())) {
+    return Object.fromEntries(names.map((name) => [name, error ?? 'Failed to save options']));
+  }
+  if (typeof chrome === 'undefined' || !chrome.runtime) return {};
+
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'updateProfiles', names });
+    return response?.errors ?? {};
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Failed to download profiles';
+    return Object.fromEntries(names.map((name) => [name, message]));
+  }
+}
+
 // Export the store
 export const optionsStore = {
   // Reactive getters
@@ -271,6 +347,7 @@ export const optionsStore = {
   applyChanges,
   revertChanges,
   applyProfile,
+  updateProfiles,
   getDependentProfiles,
   getModifiedProfiles,
 };
@@ -0,0 +1,166 @@
+/**
+ * Storage implementation backed by a chrome.storage area
+ *
+ * Works in the service worker, where localStorage is not available.
+ * Keys can be namespaced with a prefix to share an area between stores,
+ * e.g. options and worker state in chrome.storage.local.
+ * Changes made by any extension page are reported by watch().
+ * Quota errors of chrome.storage.sync are thrown as the core error classes.
+ */
+
+import {
+  QuotaExceededError,
+  RateLimitExceededError,
+  Storage,
+  type WatchCallback,
+} from '@dev-zapi/switchyalpha-core';
+
+/**
+ * Supported chrome.storage areas
+ */
+export type ChromeStorageAreaName = 'local' | 'sync';
+
+/** Prefix of the worker state keys in chrome.storage.local, e.g. _currentProfileName */
+export const STATE_PREFIX = '_';
+
+/**
+ * Map chrome.storage quota errors to the core error classes
+ *
+ * chrome.storage only reports them by message, e.g. "QUOTA_BYTES quota exceeded".
+ */
+function storageError(error: unknown): unknown {
+  const message = error instanceof Error ? error.message : String(error);
+  if (/MAX_WRITE_OPERATIONS/.test(message)) return new RateLimitExceededError();
+  if (/QUOTA_BYTES|MAX_ITEMS/.test(message)) return new QuotaExceededError();
+  return error;
+}
+
+export class ChromeStorage extends Storage {
+  private areaName: ChromeStorageAreaName;
+  private prefix: string;
+
+  constructor(areaName: ChromeStorageAreaName = 'local', prefix = '') {
+    super();
+    this.areaName = areaName;
+    this.prefix = prefix;
+    this.debugStr = `ChromeStorage(${areaName})`;
+  }
+
+  private get area(): chrome.storage.StorageArea {
+    return chrome.storage[this.areaName];
+  }
+
+  /**
+   * Get all items of this storage, without the key prefix
+   */
+  private async getAll(): Promise<Record<string, unknown>> {
+    const items = await this.area.get(null);
+    if (!this.prefix) return items;
+
+    const map: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(items)) {
+      if (key.startsWith(this.prefix)) {
+        map[key.substring(this.prefix.length)] = value;
+      }
+    }
+    return map;
+  }
+
+  async get(
+    keys?: string | string[] | Record<string, unknown> | null
+  ): Promise<Record<string, unknown>> {
+    if (keys === null || keys === undefined) {
+      return this.getAll();
+    }
+
+    // Requested keys with their defaults
+    let defaults: Record<string, unknown> = {};
+    if (typeof keys === 'string') {
+      defaults[keys] = undefined;
+    } else if (Array.isArray(keys)) {
+      for (const key of keys) {
+        defaults[key] = undefined;
+      }
+    } else {
+      defaults = keys;
+    }
+
+    const items = await this.area.get(Object.keys(defaults).map((key) => this.prefix + key));
+    const map: Record<string, unknown> = {};
+    for (const [key, defaultValue] of Object.entries(defaults)) {
+      const value = items[this.prefix + key] ?? defaultValue;
+      if (value !== undefined) {
+        map[key] = value;
+      }
+    }
+    return map;
+  }
+
+  async set(items: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const prefixed: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(items)) {
+      prefixed[this.prefix + key] = value;
+    }
+    try {
+      await this.area.set(prefixed);
+    } catch (e) {
+      throw storageError(e);
+    }
+    return items;
+  }
+
+  async remove(keys?: string | string[] | null): Promise<void> {
+    if (keys === null || keys === undefined) {
+      if (!this.prefix) {
+        await this.area.clear();
+        return;
+      }
+      keys = Object.keys(await this.getAll());
+    }
+
+    const keyArray = typeof keys === 'string' ? [keys] : keys;
+    if (keyArray.length > 0) {
+      try {
+        await this.area.remove(keyArray.map((key) => this.prefix + key));
+      } catch (e) {
+        throw storageError(e);
+      }
+    }
+  }
+
+  /**
+   * Watch for changes to storage
+   *
+   * The callback receives the new values of changed keys, undefined for removed ones.
+   *
+   * @param keys - Keys to watch, or null for all
+   * @returns Function to stop watching
+   */
+  watch(keys: string | string[] | null, callback: WatchCallback): () => void {
+    const watched = keys === null ? null : new Set(typeof keys === 'string' ? [keys] : keys);
+
+    const listener = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName !== this.areaName) return;
+
+      const map: Record<string, unknown> = {};
+      let changed = false;
+      for (const [prefixed, change] of Object.entries(changes)) {
+        if (!prefixed.startsWith(this.prefix)) continue;
+        const key = prefixed.substring(this.prefix.length);
+        if (watched && !watched.has(key)) continue;
+        map[key] = change.newValue;
+        changed = true;
+      }
+
+      if (changed) {
+        callback(map);
+      }
+    };
+
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Condition suggestion utilities for adding rules from the popup
+ */
+
+import {
+  isIp,
+  wildcardForDomain,
+  wildcardForUrl,
+  type Condition,
+} from '@dev-zapi/switchyalpha-pac';
+
+/**
+ * Get a condition matching a host and its subdomains (or just the host for IPs)
+ */
+export function conditionForHost(host: string): Condition {
+  return {
+    conditionType: 'HostWildcardCondition',
+    pattern: isIp(host) ? host : wildcardForDomain(host),
+  };
+}
+
+/**
+ * Suggest conditions matching a URL, broadest (base domain) first
+ *
+ * @returns an empty list for URLs without a host (e.g. chrome:// pages)
+ */
+export function suggestConditions(url: string): Condition[] {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return [];
+  }
+  if (!parsed.hostname || !/^(https?|ftp|wss?):$/.test(parsed.protocol)) {
+    return [];
+  }
+
+  const host = parsed.hostname;
+  const patterns = isIp(host) ? [host] : [wildcardForDomain(host), wildcardForUrl(url)];
+
+  const conditions: Condition[] = [...new Set(patterns)].map((pattern) => ({
+    conditionType: 'HostWildcardCondition',
+    pattern,
+  }));
+  conditions.push({
+    conditionType: 'UrlWildcardCondition',
+    pattern: `${parsed.protocol}//${parsed.host}/*`,
+  });
+
+  return conditions;
+}
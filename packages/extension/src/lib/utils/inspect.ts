@@ -0,0 +1,103 @@
+/**
+ * URL inspection utilities
+ *
+ * Resolves a URL through the profile chain, recording the matched rule of every hop.
+ * Used by the inspect context menu and the URL test page.
+ */
+
+import {
+  Conditions,
+  Profiles,
+  requestFromUrl,
+  type MatchResult,
+  type OmegaOptions,
+  type PacEvaluator,
+  type Profile,
+} from '@dev-zapi/switchyalpha-pac';
+
+/**
+ * A profile visited while resolving a URL
+ */
+export interface InspectHop {
+  profileName: string;
+  profileType: string;
+  /** Matched condition, rule list line or proxy scheme; empty for the default */
+  source: string;
+  /** Next profile name, or the PAC result for the last hop */
+  result: string | null;
+}
+
+/**
+ * How a URL is resolved by a profile
+ */
+export interface InspectResult {
+  url: string;
+  hops: InspectHop[];
+  /** Final PAC result (e.g. PROXY host:port), null if decided by a PAC script or the system */
+  proxy: string | null;
+}
+
+/**
+ * Describe the source of a match result
+ */
+function describeSource(result: MatchResult | null): string {
+  if (!result?.source) return '';
+  return typeof result.source === 'string' ? result.source : Conditions.str(result.source);
+}
+
+/**
+ * Get the result of a PacProfile hop, kept as the source of its match result
+ */
+function pacScriptResult(result: MatchResult | null): string | null {
+  return typeof result?.source === 'string' ? result.source : null;
+}
+
+/**
+ * Resolve a URL through the profile chain starting at a profile
+ *
+ * @param evaluatePac Evaluates PAC scripts, which extension pages and the worker cannot
+ */
+export async function inspectUrl(
+  options: OmegaOptions,
+  profileName: string,
+  url: string,
+  evaluatePac: PacEvaluator
+): Promise<InspectResult> {
+  const profiles = options as unknown as Record<string, Profile>;
+  const hops = await Profiles.matchChainAsync(
+    profileName,
+    requestFromUrl(url),
+    profiles,
+    evaluatePac
+  );
+
+  const last = hops[hops.length - 1];
+  let proxy: string | null = null;
+  if (last?.result && !Profiles.isInclusive(last.profile)) {
+    // PAC scripts may return several proxies, which are kept as-is
+    proxy =
+      last.profile.profileType === 'PacProfile'
+        ? pacScriptResult(last.result)
+        : Profiles.pacResult(last.result.proxy);
+  }
+
+  return {
+    url,
+    hops: hops.map(({ profile, result }) =>
+      profile.profileType === 'PacProfile'
+        ? {
+            profileName: profile.name,
+            profileType: profile.profileType,
+            source: '',
+            result: pacScriptResult(result),
+          }
+        : {
+            profileName: profile.name,
+            profileType: profile.profileType,
+            source: describeSource(result),
+            result: result?.profileName ?? null,
+          }
+    ),
+    proxy,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * PAC script evaluation in the sandbox page
+ *
+ * Extension pages may not evaluate code, so PAC scripts are run by a hidden
+ * iframe of the sandboxed page src/sandbox/index.html. The worker does the same
+ * through its offscreen document (src/offscreen/index.html).
+ */
+
+/** Time to wait for a sandbox response before giving up (ms) */
+const SANDBOX_TIMEOUT = 5000;
+
+/**
+ * Request to evaluate a PAC script for a URL, or only to compile it if no URL is given
+ */
+export interface PacSandboxRequest {
+  id: number;
+  script: string;
+  url?: string;
+}
+
+/**
+ * PAC result or error message for a request
+ */
+export interface PacSandboxResponse {
+  id: number;
+  result?: string;
+  error?: string;
+}
+
+/**
+ * Message asking the offscreen document to evaluate a PAC script for the worker
+ */
+export interface PacEvaluateMessage {
+  action: 'evaluatePacScript';
+  script: string;
+  url: string;
+}
+
+interface PendingRequest {
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let frame: Promise<HTMLIFrameElement> | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+
+/**
+ * Create the sandbox iframe on first use
+ */
+function getFrame(): Promise<HTMLIFrameElement> {
+  if (frame) return frame;
+
+  const iframe = document.createElement('iframe');
+  frame = new Promise((resolve, reject) => {
+    iframe.src = chrome.runtime.getURL('src/sandbox/index.html');
+    iframe.style.display = 'none';
+    iframe.addEventListener('load', () => resolve(iframe), { once: true });
+    iframe.addEventListener('error', () => reject(new Error('Failed to load PAC sandbox')), {
+      once: true,
+    });
+    document.body.appendChild(iframe);
+  });
+
+  window.addEventListener('message', (event: MessageEvent<PacSandboxResponse>) => {
+    if (event.source !== iframe.contentWindow) return;
+    const request = pending.get(event.data?.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    clearTimeout(request.timer);
+    if (event.data.error !== undefined) {
+      request.reject(new Error(event.data.error));
+    } else {
+      request.resolve(event.data.result ?? '');
+    }
+  });
+
+  return frame;
+}
+
+/**
+ * Send a request to the sandbox and wait for its response
+ */
+async function request(script: string, url?: string): Promise<string> {
+  const iframe = await getFrame();
+  const id = nextId++;
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      reject(new Error('PAC script evaluation timed out'));
+    }, SANDBOX_TIMEOUT);
+    pending.set(id, { resolve, reject, timer });
+
+    const message: PacSandboxRequest = { id, script, url };
+    iframe.contentWindow?.postMessage(message, '*');
+  });
+}
+
+/**
+ * Evaluate a PAC script for a URL in the sandbox
+ *
+ * @returns the PAC result, e.g. "PROXY example.com:8080"
+ */
+export function evaluateInSandbox(script: string, url: string): Promise<string> {
+  return request(script, url);
+}
+
+/**
+ * Check that a PAC script compiles and defines FindProxyForURL
+ *
+ * @returns the error message, or null if the script is fine
+ */
+export async function checkInSandbox(script: string): Promise<string | null> {
+  try {
+    await request(script);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Rule list utilities for the rule list and switch profile editors
+ */
+
+import {
+  Conditions,
+  RuleList,
+  RuleListError,
+  type RuleListProfile,
+  type SwitchProfile,
+  type SwitchRule,
+} from '@dev-zapi/switchyalpha-pac';
+
+/**
+ * Rules parsed from a rule list
+ */
+export interface RuleListStats {
+  total: number;
+  /** Exclusive rules (! or @@), which send matching URLs to the default profile */
+  exclusive: number;
+  /** Parse error, if the list could not be parsed */
+  error?: string;
+}
+
+type RuleListSource = Pick<
+  RuleListProfile,
+  'format' | 'ruleList' | 'matchProfileName' | 'defaultProfileName'
+>;
+
+/**
+ * Count the rules of a rule list the way they are matched
+ */
+export function ruleListStats(profile: RuleListSource): RuleListStats {
+  const format = RuleList[profile.format];
+  if (!format) {
+    return { total: 0, exclusive: 0, error: `Unknown rule list format: ${profile.format}` };
+  }
+
+  let text = (profile.ruleList ?? '').trim();
+  text = format.preprocess?.(text) ?? text;
+  try {
+    const rules = format.parse(text, profile.matchProfileName, profile.defaultProfileName);
+    const exclusive = rules.filter(
+      (rule) => rule.source?.startsWith('!') || rule.source?.startsWith('@@')
+    ).length;
+    return { total: rules.length, exclusive };
+  } catch (e) {
+    return { total: 0, exclusive: 0, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+type SwitchRules = Pick<SwitchProfile, 'rules' | 'defaultProfileName'>;
+
+/**
+ * Get the rules of a switch profile as Switchy rule list text
+ *
+ * Every rule has its result profile, and the default profile is the catch-all rule at the end.
+ */
+export function switchRulesToText(profile: SwitchRules): string {
+  const text = RuleList['Switchy']!.compose!(profile, { withResult: true });
+  return text.replace(/\r\n/g, '\n');
+}
+
+/**
+ * Profiles the rules of a switch profile may use as results
+ */
+export interface SwitchResultProfiles {
+  /** Names of all existing profiles, including builtin ones */
+  profileNames: string[];
+  /** Existing profiles that would make the switch profile reference itself */
+  excludedNames?: string[];
+}
+
+/**
+ * Parse switch rules edited as Switchy rule list text
+ *
+ * @throws RuleListError with the line number of the first invalid line
+ */
+export function switchRulesFromText(
+  text: string,
+  { profileNames, excludedNames = [] }: SwitchResultProfiles
+): SwitchRules {
+  if (!/^\s*@with\s+results?\s*$/im.test(text)) {
+    throw new RuleListError("Missing '@with result' directive", 1);
+  }
+
+  const parsed = RuleList['Switchy']!.parse(text, '', '', { strict: true });
+  for (const { profileName, line } of parsed) {
+    if (!profileNames.includes(profileName)) {
+      throw new RuleListError(`Unknown profile: +${profileName}`, line!);
+    }
+    if (excludedNames.includes(profileName)) {
+      throw new RuleListError(`Cannot use +${profileName}, this profile would use itself`, line!);
+    }
+  }
+
+  // Strict parsing makes sure the catch-all rule is the last one
+  const catchAll = parsed.pop()!;
+  if (catchAll.note || catchAll.tags) {
+    // The default profile has nowhere to keep them
+    throw new RuleListError(
+      'Notes and tags are not supported on the catch-all rule',
+      catchAll.line!
+    );
+  }
+  return {
+    rules: parsed.map(({ condition, profileName, note, tags }) => ({
+      condition,
+      profileName,
+      ...(note && { note }),
+      ...(tags && { tags }),
+    })),
+    defaultProfileName: catchAll.profileName,
+  };
+}
+
+/**
+ * Parse comma-separated rule tags, dropping empty and repeated ones
+ */
+export function parseTags(text: string): string[] {
+  const tags = text.split(',').map((tag) => tag.trim());
+  return [...new Set(tags.filter((tag) => tag.length > 0))];
+}
+
+/**
+ * Get all tags used by rules, sorted
+ */
+export function ruleTags(rules: SwitchRule[]): string[] {
+  const tags = new Set(rules.flatMap((rule) => rule.tags ?? []));
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Find the rules matching a search, with their index in the profile
+ *
+ * The query is matched case-insensitively against the condition, result profile, note and tags.
+ */
+export function searchRules(
+  rules: SwitchRule[],
+  query: string,
+  tag = ''
+): { rule: SwitchRule; index: number }[] {
+  const needle = query.trim().toLowerCase();
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => {
+      if (tag && !rule.tags?.includes(tag)) return false;
+      if (!needle) return true;
+      const haystack = [
+        Conditions.str(rule.condition),
+        rule.profileName,
+        rule.note ?? '',
+        ...(rule.tags ?? []),
+      ];
+      return haystack.some((text) => text.toLowerCase().includes(needle));
+    });
+}
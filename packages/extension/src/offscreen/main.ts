@@ -0,0 +1,18 @@
+/**
+ * Offscreen document of the background worker
+ *
+ * The worker has no DOM to embed the PAC sandbox page, so it asks this document
+ * to evaluate PAC scripts in the sandbox on its behalf.
+ */
+
+import { evaluateInSandbox, type PacEvaluateMessage } from '$lib/utils/pac-sandbox';
+
+chrome.runtime.onMessage.addListener((message: PacEvaluateMessage, _sender, sendResponse) => {
+  // Messages to the worker are delivered here too
+  if (message?.action !== 'evaluatePacScript') return false;
+
+  evaluateInSandbox(message.script, message.url)
+    .then((result) => sendResponse({ result }))
+    .catch((e) => sendResponse({ error: e instanceof Error ? e.message : String(e) }));
+  return true;
+});
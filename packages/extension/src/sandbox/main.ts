@@ -0,0 +1,30 @@
+/**
+ * PAC script sandbox
+ *
+ * Runs in a sandboxed extension page (see "sandbox" in manifest.json), which
+ * allows evaluating PAC scripts without access to extension APIs.
+ * Requests and responses are exchanged with the embedding page via postMessage.
+ */
+
+import { compilePacScript, evaluatePacScript } from '@dev-zapi/switchyalpha-pac';
+import type { PacSandboxRequest, PacSandboxResponse } from '$lib/utils/pac-sandbox';
+
+window.addEventListener('message', (event: MessageEvent<PacSandboxRequest>) => {
+  const { id, script, url } = event.data ?? {};
+  if (typeof id !== 'number' || typeof script !== 'string') return;
+  if (url !== undefined && typeof url !== 'string') return;
+
+  let response: PacSandboxResponse;
+  try {
+    if (url === undefined) {
+      // Only check the script
+      compilePacScript(script);
+      response = { id, result: '' };
+    } else {
+      response = { id, result: evaluatePacScript(script, url) };
+    }
+  } catch (e) {
+    response = { id, error: e instanceof Error ? e.message : String(e) };
+  }
+  (event.source as WindowProxy | null)?.postMessage(response, { targetOrigin: '*' });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+import { findCredentials, handleAuthRequired } from '../src/background/auth';
+import type { WorkerContext } from '../src/background/context';
+
+function createOptions(): OmegaOptions {
+  return {
+    '-schemaVersion': 2,
+    '+proxy': {
+      name: 'proxy',
+      profileType: 'FixedProfile',
+      fallbackProxy: { scheme: 'http', host: 'proxy.example.com', port: 3128 },
+      auth: { fallbackProxy: { username: 'alice', password: 'secret' } },
+    },
+    '+other': {
+      name: 'other',
+      profileType: 'FixedProfile',
+      fallbackProxy: { scheme: 'http', host: 'proxy.example.com', port: 3128 },
+      auth: { fallbackProxy: { username: 'bob', password: 'hunter2' } },
+    },
+    '+auto': {
+      name: 'auto',
+      profileType: 'SwitchProfile',
+      defaultProfileName: 'direct',
+      rules: [
+        {
+          condition: { conditionType: 'HostWildcardCondition', pattern: '*.blocked.com' },
+          profileName: 'other',
+        },
+      ],
+    },
+  } as OmegaOptions;
+}
+
+const challenger = { host: 'proxy.example.com', port: 3128 };
+
+function createContext(getOptions: WorkerContext['getOptions']): WorkerContext {
+  return {
+    getOptions,
+    setOptions: async () => {},
+    getCurrentProfileName: () => 'auto',
+    applyProfile: async () => {},
+  };
+}
+
+function challenge(requestId: string, url = 'http://www.blocked.com/') {
+  return {
+    requestId,
+    url,
+    isProxy: true,
+    challenger,
+  } as chrome.webRequest.WebAuthenticationChallengeDetails;
+}
+
+describe('Proxy authentication', () => {
+  it('should prefer credentials of the profile resolved through the switch chain', () => {
+    const candidates = findCredentials(createOptions(), 'auto', 'http://www.blocked.com/', challenger);
+    expect(candidates.map((c) => c.username)).toEqual(['bob', 'alice']);
+  });
+
+  it('should ignore proxies on other servers', () => {
+    const candidates = findCredentials(createOptions(), 'proxy', 'http://example.com/', {
+      host: 'proxy.example.com',
+      port: 8080,
+    });
+    expect(candidates).toEqual([]);
+  });
+
+  it('should cancel after every credential has been rejected', async () => {
+    const options = createOptions();
+    const context = createContext(async () => options);
+
+    expect((await handleAuthRequired(challenge('1'), context)).authCredentials?.username).toBe(
+      'bob'
+    );
+    expect((await handleAuthRequired(challenge('1'), context)).authCredentials?.username).toBe(
+      'alice'
+    );
+    expect(await handleAuthRequired(challenge('1'), context)).toEqual({ cancel: true });
+  });
+
+  it('should not answer server (non-proxy) challenges', async () => {
+    const options = createOptions();
+    const context = createContext(async () => options);
+    const details = { ...challenge('2'), isProxy: false };
+
+    expect(await handleAuthRequired(details, context)).toEqual({});
+  });
+
+  it('should wait for the options before answering', async () => {
+    let loaded: (options: OmegaOptions) => void = () => {};
+    const ready = new Promise<OmegaOptions>((resolve) => (loaded = resolve));
+    const context = createContext(() => ready);
+
+    const response = handleAuthRequired(challenge('3'), context);
+    loaded(createOptions());
+    expect((await response).authCredentials?.username).toBe('bob');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { QuotaExceededError, RateLimitExceededError } from '@dev-zapi/switchyalpha-core';
+
+// Mock chrome.storage area
+const items: Record<string, unknown> = {};
+type Listener = (changes: object, areaName: string) => void;
+const listeners = new Set<Listener>();
+const area = {
+  get: vi.fn(async (keys: string[] | null) => {
+    if (keys === null) return { ...items };
+    return Object.fromEntries(keys.filter((key) => key in items).map((key) => [key, items[key]]));
+  }),
+  set: vi.fn(async (changes: Record<string, unknown>) => {
+    Object.assign(items, changes);
+  }),
+  remove: vi.fn(async (keys: string[]) => {
+    for (const key of keys) delete items[key];
+  }),
+  clear: vi.fn(async () => {
+    for (const key of Object.keys(items)) delete items[key];
+  }),
+};
+const syncArea = { set: vi.fn(async () => {}) };
+vi.stubGlobal('chrome', {
+  storage: {
+    local: area,
+    sync: syncArea,
+    onChanged: {
+      addListener: (listener: Listener) => listeners.add(listener),
+      removeListener: (listener: Listener) => listeners.delete(listener),
+    },
+  },
+});
+
+const { ChromeStorage } = await import('../src/lib/utils/chrome-storage');
+
+function emitChanges(changes: Record<string, unknown>, areaName = 'local') {
+  const storageChanges = Object.fromEntries(
+    Object.entries(changes).map(([key, newValue]) => [key, { newValue }])
+  );
+  for (const listener of listeners) listener(storageChanges, areaName);
+}
+
+describe('ChromeStorage', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(items)) delete items[key];
+  });
+
+  it('should get values with defaults', async () => {
+    const storage = new ChromeStorage('local');
+    await storage.set({ a: 1 });
+
+    expect(await storage.get('a')).toEqual({ a: 1 });
+    expect(await storage.get(['a', 'b'])).toEqual({ a: 1 });
+    expect(await storage.get({ a: 0, b: 2 })).toEqual({ a: 1, b: 2 });
+  });
+
+  it('should namespace keys with a prefix', async () => {
+    const options = new ChromeStorage('local');
+    const state = new ChromeStorage('local', '_');
+    await options.set({ '-schemaVersion': 2 });
+    await state.set({ currentProfileName: 'proxy' });
+
+    expect(items).toEqual({ '-schemaVersion': 2, _currentProfileName: 'proxy' });
+    expect(await state.get(null)).toEqual({ currentProfileName: 'proxy' });
+
+    // Clearing the state keeps other keys
+    await state.remove(null);
+    expect(items).toEqual({ '-schemaVersion': 2 });
+  });
+
+  it('should remove values', async () => {
+    const storage = new ChromeStorage('local');
+    await storage.set({ a: 1, b: 2, c: 3 });
+
+    await storage.remove('a');
+    await storage.apply({ set: {}, remove: ['b'] });
+    expect(await storage.get(null)).toEqual({ c: 3 });
+
+    await storage.remove(null);
+    expect(items).toEqual({});
+  });
+
+  it('should watch changed keys of its area and prefix', () => {
+    const state = new ChromeStorage('local', '_');
+    const callback = vi.fn();
+    const stop = state.watch('currentProfileName', callback);
+
+    emitChanges({ _currentProfileName: 'proxy', '+proxy': {} });
+    emitChanges({ _currentProfileName: 'direct' }, 'sync');
+    emitChanges({ _isSystemProfile: false });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith({ currentProfileName: 'proxy' });
+
+    stop();
+    emitChanges({ _currentProfileName: undefined });
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw quota errors as core errors', async () => {
+    const storage = new ChromeStorage('sync');
+
+    syncArea.set.mockRejectedValueOnce(new Error('QUOTA_BYTES_PER_ITEM quota exceeded'));
+    await expect(storage.set({ '+proxy': {} })).rejects.toBeInstanceOf(QuotaExceededError);
+
+    syncArea.set.mockRejectedValueOnce(
+      new Error('This request exceeds the MAX_WRITE_OPERATIONS_PER_MINUTE quota.')
+    );
+    await expect(storage.set({ '+proxy': {} })).rejects.toBeInstanceOf(RateLimitExceededError);
+  });
+});
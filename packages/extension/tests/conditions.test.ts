@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { conditionForHost, suggestConditions } from '../src/lib/utils/conditions';
+
+describe('suggestConditions', () => {
+  it('should suggest base domain, host and URL wildcards', () => {
+    expect(suggestConditions('https://www.example.co.uk/path?q=1')).toEqual([
+      { conditionType: 'HostWildcardCondition', pattern: '*.example.co.uk' },
+      { conditionType: 'HostWildcardCondition', pattern: '*.www.example.co.uk' },
+      { conditionType: 'UrlWildcardCondition', pattern: 'https://www.example.co.uk/*' },
+    ]);
+  });
+
+  it('should not repeat identical host patterns', () => {
+    const patterns = suggestConditions('http://example.com:8080/').map(
+      (c) => (c as { pattern: string }).pattern
+    );
+    expect(patterns).toEqual(['*.example.com', 'http://example.com:8080/*']);
+  });
+
+  it('should use IP literals as-is', () => {
+    expect(suggestConditions('http://192.168.1.1/')[0]).toEqual({
+      conditionType: 'HostWildcardCondition',
+      pattern: '192.168.1.1',
+    });
+  });
+
+  it('should ignore pages without a proxied host', () => {
+    expect(suggestConditions('chrome://extensions/')).toEqual([]);
+    expect(suggestConditions('')).toEqual([]);
+  });
+});
+
+describe('conditionForHost', () => {
+  it('should match the whole site of a host', () => {
+    expect(conditionForHost('static.cdn.example.com')).toEqual({
+      conditionType: 'HostWildcardCondition',
+      pattern: '*.example.com',
+    });
+    expect(conditionForHost('10.0.0.1')).toEqual({
+      conditionType: 'HostWildcardCondition',
+      pattern: '10.0.0.1',
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { OmegaOptions, PacProfile, RuleListProfile } from '@dev-zapi/switchyalpha-pac';
+
+// Mock Chrome API
+const alarms = new Map<string, { name: string; periodInMinutes?: number }>();
+const mockStorage: Record<string, unknown> = {};
+const mockChrome = {
+  alarms: {
+    get: vi.fn(async (name: string) => alarms.get(name)),
+    create: vi.fn(async (name: string, info: { periodInMinutes?: number }) => {
+      alarms.set(name, { name, ...info });
+    }),
+    clear: vi.fn(async (name: string) => alarms.delete(name)),
+  },
+  storage: {
+    local: {
+      set: vi.fn(async (items: Record<string, unknown>) => {
+        Object.assign(mockStorage, items);
+      }),
+    },
+  },
+};
+vi.stubGlobal('chrome', mockChrome);
+
+const { DOWNLOAD_ALARM, PAC_DOWNLOAD_ALARM, scheduleDownloads, runDownloads, missingPacScripts } =
+  await import('../src/background/download');
+
+function createOptions(): OmegaOptions {
+  return {
+    '-schemaVersion': 2,
+    '+list': {
+      name: 'list',
+      profileType: 'RuleListProfile',
+      format: 'Switchy',
+      sourceUrl: 'https://example.com/list.txt',
+      matchProfileName: 'proxy',
+      defaultProfileName: 'direct',
+      ruleList: '',
+    },
+    '+remote': {
+      name: 'remote',
+      profileType: 'PacProfile',
+      pacUrl: 'https://example.com/proxy.pac',
+    },
+    '+auto': {
+      name: 'auto',
+      profileType: 'SwitchProfile',
+      defaultProfileName: 'list',
+      rules: [
+        {
+          condition: { conditionType: 'HostWildcardCondition', pattern: '*.example.net' },
+          profileName: 'remote',
+        },
+      ],
+    },
+    '+other': {
+      name: 'other',
+      profileType: 'SwitchProfile',
+      defaultProfileName: 'direct',
+      rules: [],
+    },
+  } as unknown as OmegaOptions;
+}
+
+describe('Download scheduler', () => {
+  beforeEach(() => {
+    alarms.clear();
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key]);
+    vi.clearAllMocks();
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('*.example.org', { headers: { 'content-type': 'text/plain' } }))
+    );
+  });
+
+  it('should keep an existing alarm with the same period', async () => {
+    await scheduleDownloads({ '-downloadInterval': 60 } as OmegaOptions);
+    await scheduleDownloads({ '-downloadInterval': 60 } as OmegaOptions);
+    expect(alarms.get(DOWNLOAD_ALARM)?.periodInMinutes).toBe(60);
+    // One rule list alarm and one PAC alarm
+    expect(mockChrome.alarms.create).toHaveBeenCalledTimes(2);
+
+    await scheduleDownloads({ '-downloadInterval': 120 } as OmegaOptions);
+    expect(alarms.get(DOWNLOAD_ALARM)?.periodInMinutes).toBe(120);
+  });
+
+  it('should schedule PAC scripts separately', async () => {
+    await scheduleDownloads({
+      '-downloadInterval': 0,
+      '-pacDownloadInterval': 30,
+    } as OmegaOptions);
+    expect(alarms.has(DOWNLOAD_ALARM)).toBe(false);
+    expect(alarms.get(PAC_DOWNLOAD_ALARM)?.periodInMinutes).toBe(30);
+
+    await scheduleDownloads({ '-pacDownloadInterval': 0 } as OmegaOptions);
+    expect(alarms.has(PAC_DOWNLOAD_ALARM)).toBe(false);
+  });
+
+  it('should find remote PAC scripts that are not cached yet', () => {
+    const options = createOptions();
+    expect(missingPacScripts(options, 'auto')).toEqual(['remote']);
+    expect(missingPacScripts(options, 'remote')).toEqual([]);
+
+    (options['+remote'] as PacProfile).pacScript = 'function FindProxyForURL() {}';
+    expect(missingPacScripts(options, 'auto')).toEqual([]);
+  });
+
+  it('should save downloads and re-apply a dependent current profile', async () => {
+    const options = createOptions();
+    const applyProfile = vi.fn(async () => {});
+    const context = {
+      getOptions: async () => options,
+      setOptions: async (changes: Partial<OmegaOptions>) => {
+        Object.assign(options, changes);
+        await chrome.storage.local.set(changes);
+      },
+      getCurrentProfileName: () => 'auto',
+      applyProfile,
+    };
+
+    await runDownloads(context, ['list']);
+
+    expect((options['+list'] as RuleListProfile).ruleList).toBe('*.example.org');
+    expect((mockStorage['+list'] as RuleListProfile).lastUpdate).toBeDefined();
+    expect(applyProfile).toHaveBeenCalledWith('auto');
+  });
+
+  it('should not re-apply an unrelated current profile', async () => {
+    const options = createOptions();
+    const applyProfile = vi.fn(async () => {});
+
+    await runDownloads({
+      getOptions: async () => options,
+      setOptions: async (changes) => {
+        Object.assign(options, changes);
+      },
+      getCurrentProfileName: () => 'other',
+      applyProfile,
+    });
+
+    expect(applyProfile).not.toHaveBeenCalled();
+  });
+
+  it('should keep edits made while downloading', async () => {
+    const options = createOptions();
+    const setOptions = vi.fn(async (changes: Partial<OmegaOptions>) => {
+      Object.assign(options, changes);
+    });
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        // Edited in the options page before the download finishes
+        options['+list'] = { ...(options['+list'] as RuleListProfile), color: '#123456' };
+        delete options['+remote'];
+        const data = url.endsWith('.pac') ? 'function FindProxyForURL() {}' : '*.example.org';
+        return new Response(data, { headers: { 'content-type': 'text/plain' } });
+      })
+    );
+
+    await runDownloads({
+      getOptions: async () => options,
+      setOptions,
+      getCurrentProfileName: () => 'other',
+      applyProfile: async () => {},
+    });
+
+    expect(setOptions).toHaveBeenCalledTimes(1);
+    expect(Object.keys(setOptions.mock.calls[0][0])).toEqual(['+list']);
+    const list = options['+list'] as RuleListProfile;
+    expect(list.color).toBe('#123456');
+    expect(list.ruleList).toBe('*.example.org');
+    expect(list.revision).toBeDefined();
+    expect(options['+remote']).toBeUndefined();
+  });
+
+  it('should not save downloads that did not change', async () => {
+    const options = createOptions();
+    (options['+list'] as RuleListProfile).ruleList = '*.example.org';
+    const setOptions = vi.fn(async () => {});
+    const applyProfile = vi.fn(async () => {});
+
+    await runDownloads(
+      {
+        getOptions: async () => options,
+        setOptions,
+        getCurrentProfileName: () => 'auto',
+        applyProfile,
+      },
+      ['list']
+    );
+
+    expect(setOptions).not.toHaveBeenCalled();
+    expect(applyProfile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluatePacScript,
+  type OmegaOptions,
+  type PacEvaluator,
+  type PacProfile,
+  type SwitchProfile,
+} from '@dev-zapi/switchyalpha-pac';
+import { inspectUrl as inspect } from '../src/lib/utils/inspect';
+
+// Tests may evaluate PAC scripts in-process, unlike extension pages
+const evaluatePac: PacEvaluator = async (script, url) => evaluatePacScript(script, url);
+
+function inspectUrl(options: OmegaOptions, profileName: string, url: string) {
+  return inspect(options, profileName, url, evaluatePac);
+}
+
+function createOptions(): OmegaOptions {
+  return {
+    '-schemaVersion': 2,
+    '+proxy': {
+      name: 'proxy',
+      profileType: 'FixedProfile',
+      fallbackProxy: { scheme: 'http', host: 'proxy.example.com', port: 3128 },
+    },
+    '+list': {
+      name: 'list',
+      profileType: 'RuleListProfile',
+      format: 'Switchy',
+      matchProfileName: 'proxy',
+      defaultProfileName: 'direct',
+      ruleList: '[SwitchyOmega Conditions]\n*.example.org',
+    },
+    '+auto': {
+      name: 'auto',
+      profileType: 'SwitchProfile',
+      defaultProfileName: 'list',
+      rules: [
+        {
+          condition: { conditionType: 'HostWildcardCondition', pattern: '*.example.com' },
+          profileName: 'proxy',
+        },
+      ],
+    },
+    '+remote': {
+      name: 'remote',
+      profileType: 'PacProfile',
+      pacUrl: 'https://example.com/proxy.pac',
+    },
+  } as unknown as OmegaOptions;
+}
+
+describe('inspectUrl', () => {
+  it('should explain the matched rule of every hop', async () => {
+    const result = await inspectUrl(createOptions(), 'auto', 'https://www.example.org/');
+
+    expect(result.hops).toEqual([
+      { profileName: 'auto', profileType: 'SwitchProfile', source: '', result: 'list' },
+      {
+        profileName: 'list',
+        profileType: 'RuleListProfile',
+        source: '*.example.org',
+        result: 'proxy',
+      },
+      {
+        profileName: 'proxy',
+        profileType: 'FixedProfile',
+        source: '',
+        result: 'PROXY proxy.example.com:3128',
+      },
+    ]);
+    expect(result.proxy).toBe('PROXY proxy.example.com:3128');
+  });
+
+  it('should describe matched conditions', async () => {
+    const result = await inspectUrl(createOptions(), 'auto', 'http://www.example.com/');
+    expect(result.hops[0]?.source).toBe('*.example.com');
+    expect(result.hops).toHaveLength(2);
+  });
+
+  it('should resolve the default rule to direct', async () => {
+    const result = await inspectUrl(createOptions(), 'auto', 'https://other.net/');
+    expect(result.hops.map((hop) => hop.profileName)).toEqual(['auto', 'list', 'direct']);
+    expect(result.proxy).toBe('DIRECT');
+  });
+
+  it('should include the result of cached PAC scripts', async () => {
+    const options = createOptions();
+    (options['+remote'] as PacProfile).pacScript =
+      'function FindProxyForURL() { return "PROXY a.example.com:80; DIRECT"; }';
+
+    const result = await inspectUrl(options, 'remote', 'https://example.com/');
+    expect(result.hops).toEqual([
+      {
+        profileName: 'remote',
+        profileType: 'PacProfile',
+        source: '',
+        result: 'PROXY a.example.com:80; DIRECT',
+      },
+    ]);
+    expect(result.proxy).toBe('PROXY a.example.com:80; DIRECT');
+  });
+
+  it('should follow switch profiles into PAC scripts evaluated elsewhere', async () => {
+    const options = createOptions();
+    (options['+remote'] as PacProfile).pacScript = 'function FindProxyForURL() {}';
+    (options['+auto'] as SwitchProfile).defaultProfileName = 'remote';
+
+    const result = await inspect(options, 'auto', 'https://other.net/', async () => 'SOCKS5 s:1080');
+    expect(result.hops.map((hop) => hop.result)).toEqual(['remote', 'SOCKS5 s:1080']);
+    expect(result.proxy).toBe('SOCKS5 s:1080');
+  });
+
+  it('should leave PAC scripts that are not downloaded yet undecided', async () => {
+    const result = await inspectUrl(createOptions(), 'remote', 'https://example.com/');
+    expect(result.hops).toEqual([
+      { profileName: 'remote', profileType: 'PacProfile', source: '', result: null },
+    ]);
+    expect(result.proxy).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Profiles, type SwitchProfile } from '@dev-zapi/switchyalpha-pac';
+
+// Mock Chrome API
+const items: Record<string, unknown> = {};
+const mockChrome = {
+  storage: {
+    local: {
+      get: vi.fn(async (keys: string[] | null) => {
+        if (keys === null) return { ...items };
+        return Object.fromEntries(
+          keys.filter((key) => key in items).map((key) => [key, items[key]])
+        );
+      }),
+      set: vi.fn(async (changes: Record<string, unknown>) => {
+        Object.assign(items, changes);
+      }),
+      remove: vi.fn(async (keys: string[]) => {
+        for (const key of keys) delete items[key];
+      }),
+      clear: vi.fn(async () => {
+        for (const key of Object.keys(items)) delete items[key];
+      }),
+    },
+  },
+  proxy: {
+    settings: {
+      set: vi.fn(async () => {}),
+    },
+  },
+};
+vi.stubGlobal('chrome', mockChrome);
+
+const { ChromeOptions, FAIL_CLOSED_CONFIG } = await import('../src/background/options');
+
+describe('ChromeOptions', () => {
+  it('should store options and the current profile in chrome.storage.local', async () => {
+    Object.assign(items, {
+      '-schemaVersion': 2,
+      '+proxy': {
+        name: 'proxy',
+        profileType: 'FixedProfile',
+        fallbackProxy: { scheme: 'http', host: '127.0.0.1', port: 8080 },
+      },
+      _currentProfileName: 'proxy',
+    });
+    const options = new ChromeOptions();
+    await options.init();
+
+    expect(options.getCurrentProfileName()).toBe('proxy');
+    expect(mockChrome.proxy.settings.set).toHaveBeenLastCalledWith({
+      value: {
+        mode: 'fixed_servers',
+        rules: { singleProxy: { scheme: 'http', host: '127.0.0.1', port: 8080 } },
+      },
+      scope: 'regular',
+    });
+
+    await options.applyProfile('direct');
+    expect(items._currentProfileName).toBe('direct');
+    expect(mockChrome.proxy.settings.set).toHaveBeenLastCalledWith({
+      value: { mode: 'direct' },
+      scope: 'regular',
+    });
+  });
+
+  it('should apply switch profiles as PAC scripts', async () => {
+    const options = new ChromeOptions();
+    await options.resetOptions();
+    await options.addCondition(
+      { conditionType: 'HostWildcardCondition', pattern: '*.example.com' },
+      'proxy',
+      'auto switch'
+    );
+
+    const config = options.proxyConfig(options.profile('auto switch') as SwitchProfile);
+    expect(config?.mode).toBe('pac_script');
+    expect(config?.pacScript?.data).toContain('example');
+  });
+
+  it('should apply virtual profiles like their target', async () => {
+    const options = new ChromeOptions();
+    await options.resetOptions();
+    await options.addProfile(
+      Profiles.create({ name: 'alias', defaultProfileName: 'proxy' }, 'VirtualProfile')
+    );
+
+    expect(options.proxyConfig(options.profile('alias')!)).toEqual(
+      options.proxyConfig(options.profile('proxy')!)
+    );
+
+    await options.setVirtualTarget('alias', 'direct');
+    expect(options.proxyConfig(options.profile('alias')!)).toEqual({ mode: 'direct' });
+  });
+
+  it('should fail all requests if the PAC script cannot be generated', async () => {
+    const options = new ChromeOptions();
+    await options.resetOptions();
+    // Referencing itself
+    await options.addProfile(
+      Profiles.create({ name: 'broken', defaultProfileName: 'broken' }, 'SwitchProfile')
+    );
+
+    await expect(options.applyProfile('broken')).rejects.toThrow('broken');
+    expect(options.getCurrentProfileName()).toBe('broken');
+    expect(mockChrome.proxy.settings.set).toHaveBeenLastCalledWith({
+      value: FAIL_CLOSED_CONFIG,
+      scope: 'regular',
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+
+// Mock Chrome API
+let effective: chrome.types.ChromeSettingGetResultDetails = {
+  levelOfControl: 'controllable_by_this_extension',
+  value: { mode: 'system' },
+};
+const mockChrome = {
+  proxy: {
+    settings: {
+      set: vi.fn(async () => {}),
+      get: vi.fn((_details: unknown, callback: (details: typeof effective) => void) =>
+        callback(effective)
+      ),
+    },
+  },
+  action: {
+    setBadgeText: vi.fn(async () => {}),
+    setBadgeBackgroundColor: vi.fn(async () => {}),
+    setTitle: vi.fn(async () => {}),
+  },
+  runtime: {
+    getManifest: () => ({ action: { default_title: 'ZeroOmega' } }),
+  },
+};
+vi.stubGlobal('chrome', mockChrome);
+
+const { checkProxySettings, detectConflict, getProxyConflict, isSameProxyConfig, setProxyConfig } =
+  await import('../src/background/proxy');
+
+describe('isSameProxyConfig', () => {
+  it('should ignore properties added by the browser', () => {
+    expect(
+      isSameProxyConfig(
+        { mode: 'pac_script', pacScript: { data: 'x' } },
+        { mode: 'pac_script', pacScript: { data: 'x', mandatory: false } }
+      )
+    ).toBe(true);
+  });
+
+  it('should detect changed values', () => {
+    const fixed = {
+      mode: 'fixed_servers',
+      rules: { singleProxy: { host: 'a', port: 8080 }, bypassList: ['<local>'] },
+    };
+    expect(isSameProxyConfig(fixed, structuredClone(fixed))).toBe(true);
+    expect(isSameProxyConfig(fixed, { mode: 'direct' })).toBe(false);
+    expect(
+      isSameProxyConfig(fixed, {
+        ...fixed,
+        rules: { ...fixed.rules, bypassList: ['<local>', 'example.com'] },
+      })
+    ).toBe(false);
+  });
+});
+
+describe('detectConflict', () => {
+  const applied = { mode: 'direct' };
+
+  it('should name who controls the settings', () => {
+    expect(
+      detectConflict({ levelOfControl: 'controlled_by_other_extensions', value: {} }, applied)
+        ?.reason
+    ).toBe('app');
+    expect(detectConflict({ levelOfControl: 'not_controllable', value: {} }, null)?.reason).toBe(
+      'policy'
+    );
+  });
+
+  it('should detect cleared or changed settings', () => {
+    expect(
+      detectConflict({ levelOfControl: 'controllable_by_this_extension', value: {} }, applied)
+        ?.reason
+    ).toBe('unknown');
+    expect(
+      detectConflict({ levelOfControl: 'controllable_by_this_extension', value: {} }, null)
+    ).toBeNull();
+    expect(
+      detectConflict(
+        { levelOfControl: 'controlled_by_this_extension', value: { mode: 'system' } },
+        applied
+      )?.reason
+    ).toBe('unknown');
+    expect(
+      detectConflict({ levelOfControl: 'controlled_by_this_extension', value: applied }, applied)
+    ).toBeNull();
+  });
+});
+
+describe('checkProxySettings', () => {
+  it('should revert changes a limited number of times', async () => {
+    await setProxyConfig({ mode: 'direct' });
+    const context = {
+      getOptions: async () => ({ '-revertProxyChanges': true }) as OmegaOptions,
+      setOptions: async () => {},
+      getCurrentProfileName: () => 'direct',
+      applyProfile: vi.fn(async () => {
+        await setProxyConfig({ mode: 'direct' });
+      }),
+    };
+
+    // Another extension keeps overriding our settings
+    effective = { levelOfControl: 'controlled_by_other_extensions', value: { mode: 'system' } };
+    for (let i = 0; i < 5; i++) {
+      await checkProxySettings(context, effective);
+    }
+    expect(context.applyProfile).toHaveBeenCalledTimes(3);
+    expect(getProxyConflict()?.reason).toBe('app');
+    expect(mockChrome.action.setBadgeText).toHaveBeenLastCalledWith({ text: '!' });
+
+    // Back in control
+    effective = { levelOfControl: 'controlled_by_this_extension', value: { mode: 'direct' } };
+    await checkProxySettings(context, effective);
+    expect(getProxyConflict()).toBeNull();
+    expect(mockChrome.action.setBadgeText).toHaveBeenLastCalledWith({ text: '' });
+  });
+});
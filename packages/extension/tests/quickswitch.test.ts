@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+import {
+  nextQuickSwitchProfile,
+  quickSwitchProfiles,
+  requirePopup,
+  updateQuickSwitch,
+} from '../src/background/quickswitch';
+
+describe('Quick switch', () => {
+  it('should cycle through the profiles', () => {
+    const profiles = ['proxy', 'auto', 'direct'];
+    expect(nextQuickSwitchProfile(profiles, 'proxy')).toBe('auto');
+    expect(nextQuickSwitchProfile(profiles, 'direct')).toBe('proxy');
+  });
+
+  it('should start with the first profile if the current one is not cycled', () => {
+    expect(nextQuickSwitchProfile(['proxy', 'auto'], 'system')).toBe('proxy');
+  });
+
+  it('should require the option and at least 2 profiles', () => {
+    const options = {
+      '-enableQuickSwitch': true,
+      '-quickSwitchProfiles': ['proxy', 'direct'],
+    } as OmegaOptions;
+    expect(quickSwitchProfiles(options)).toEqual(['proxy', 'direct']);
+
+    expect(quickSwitchProfiles({ ...options, '-enableQuickSwitch': false })).toBeNull();
+    expect(quickSwitchProfiles({ ...options, '-quickSwitchProfiles': ['proxy'] })).toBeNull();
+  });
+
+  it('should keep the popup while a tab needs it', async () => {
+    let popup: string | undefined;
+    vi.stubGlobal('chrome', {
+      runtime: { getManifest: () => ({ action: { default_popup: 'popup.html' } }) },
+      action: { setPopup: vi.fn(async (details: { popup: string }) => (popup = details.popup)) },
+    });
+
+    await updateQuickSwitch({
+      '-enableQuickSwitch': true,
+      '-quickSwitchProfiles': ['proxy', 'direct'],
+    } as OmegaOptions);
+    expect(popup).toBe('');
+
+    await requirePopup(1, true);
+    expect(popup).toBe('popup.html');
+    await requirePopup(1, false);
+    expect(popup).toBe('');
+
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock Chrome API
+const badges = new Map<number | undefined, string | null>();
+const mockChrome = {
+  action: {
+    setBadgeText: vi.fn(async ({ text, tabId }: { text: string | null; tabId?: number }) => {
+      badges.set(tabId, text);
+    }),
+    setBadgeBackgroundColor: vi.fn(async () => {}),
+  },
+  webRequest: {
+    onBeforeRequest: { addListener: vi.fn() },
+    onErrorOccurred: { addListener: vi.fn() },
+  },
+  tabs: {
+    query: vi.fn(async () => [{ id: 1 }, { id: 2 }]),
+    onRemoved: { addListener: vi.fn() },
+  },
+};
+vi.stubGlobal('chrome', mockChrome);
+
+const { recordFailure, getFailedHosts, clearFailedHosts, initRequestMonitor } = await import(
+  '../src/background/requests'
+);
+
+describe('Request monitor', () => {
+  beforeEach(async () => {
+    await clearFailedHosts(1);
+    await clearFailedHosts(2);
+    badges.clear();
+  });
+
+  it('should group failures by host and count them on the badge', () => {
+    recordFailure(1, 'https://cdn.example.com/a.js', 'net::ERR_CONNECTION_RESET');
+    recordFailure(1, 'https://cdn.example.com/b.js', 'net::ERR_TIMED_OUT');
+    recordFailure(1, 'https://img.example.org/c.png', 'net::ERR_CONNECTION_REFUSED');
+
+    expect(getFailedHosts(1)).toEqual([
+      { host: 'cdn.example.com', count: 2, error: 'net::ERR_TIMED_OUT' },
+      { host: 'img.example.org', count: 1, error: 'net::ERR_CONNECTION_REFUSED' },
+    ]);
+    expect(badges.get(1)).toBe('2');
+    expect(getFailedHosts(2)).toEqual([]);
+  });
+
+  it('should ignore untracked errors and requests outside tabs', () => {
+    expect(recordFailure(1, 'https://example.com/', 'net::ERR_ABORTED')).toBe(false);
+    expect(recordFailure(-1, 'https://example.com/', 'net::ERR_TIMED_OUT')).toBe(false);
+    expect(getFailedHosts(1)).toEqual([]);
+    expect(badges.size).toBe(0);
+  });
+
+  it('should clear some or all hosts and update the badge', async () => {
+    recordFailure(1, 'https://a.example.com/', 'net::ERR_TIMED_OUT');
+    recordFailure(1, 'https://b.example.com/', 'net::ERR_TIMED_OUT');
+
+    await clearFailedHosts(1, ['a.example.com']);
+    expect(getFailedHosts(1).map((f) => f.host)).toEqual(['b.example.com']);
+    expect(badges.get(1)).toBe('1');
+
+    // Back to the global badge rather than an empty one hiding it
+    await clearFailedHosts(1);
+    expect(getFailedHosts(1)).toEqual([]);
+    expect(badges.get(1)).toBeNull();
+  });
+
+  it('should reset badges left by a previous worker on startup', async () => {
+    recordFailure(1, 'https://a.example.com/', 'net::ERR_TIMED_OUT');
+    initRequestMonitor();
+    await vi.waitFor(() => expect(badges.has(2)).toBe(true));
+
+    expect(badges.get(2)).toBeNull();
+    expect(badges.get(1)).toBe('1');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import type { SwitchRule } from '@dev-zapi/switchyalpha-pac';
+import {
+  parseTags,
+  ruleListStats,
+  ruleTags,
+  searchRules,
+  switchRulesFromText,
+  switchRulesToText,
+} from '../src/lib/utils/rule-list';
+
+const results = { matchProfileName: 'proxy', defaultProfileName: 'direct' };
+
+describe('ruleListStats', () => {
+  it('should count Switchy rules and exclusive rules', () => {
+    const ruleList = [
+      '[SwitchyOmega Conditions]',
+      '; comment',
+      '*.example.com',
+      '*.example.org',
+      '!www.example.org',
+    ].join('\n');
+    expect(ruleListStats({ format: 'Switchy', ruleList, ...results })).toEqual({
+      total: 3,
+      exclusive: 1,
+    });
+  });
+
+  it('should count AutoProxy rules, including base64 encoded lists', () => {
+    const ruleList = ['[AutoProxy 0.2.9]', '! comment', '||example.com', '@@||cdn.example.com'].join(
+      '\n'
+    );
+    const expected = { total: 2, exclusive: 1 };
+    expect(ruleListStats({ format: 'AutoProxy', ruleList, ...results })).toEqual(expected);
+    expect(ruleListStats({ format: 'AutoProxy', ruleList: btoa(ruleList), ...results })).toEqual(
+      expected
+    );
+  });
+
+  it('should handle empty and unknown lists', () => {
+    expect(ruleListStats({ format: 'Switchy', ...results })).toEqual({ total: 0, exclusive: 0 });
+    expect(ruleListStats({ format: 'Other' as never, ruleList: 'x', ...results }).error).toBe(
+      'Unknown rule list format: Other'
+    );
+  });
+});
+
+describe('switch rules as text', () => {
+  const profiles = { profileNames: ['direct', 'system', 'proxy', 'auto'] };
+  const rules: SwitchRule[] = [
+    {
+      condition: { conditionType: 'HostWildcardCondition', pattern: '*.example.com' },
+      profileName: 'proxy',
+      note: 'Work sites',
+      tags: ['work'],
+    },
+    { condition: { conditionType: 'KeywordCondition', pattern: 'ads' }, profileName: 'direct' },
+  ];
+
+  it('should round-trip rules, notes, tags and the default profile', () => {
+    const text = switchRulesToText({ rules, defaultProfileName: 'direct' });
+    expect(text).toBe(
+      [
+        '[SwitchyOmega Conditions]',
+        '@with result',
+        '',
+        '@note Work sites',
+        '@tags work',
+        '*.example.com +proxy',
+        'Keyword: ads +direct',
+        '',
+        '* +direct',
+        '',
+      ].join('\n')
+    );
+    expect(switchRulesFromText(text.replace('* +direct', '* +proxy'), profiles)).toEqual({
+      rules,
+      defaultProfileName: 'proxy',
+    });
+  });
+
+  it('should report invalid lines', () => {
+    const header = '[SwitchyOmega Conditions]\n@with result\n';
+    expect(() => switchRulesFromText(header + '*.example.com\n* +direct', profiles)).toThrow(
+      'Line 3: Missing result profile name'
+    );
+    expect(() => switchRulesFromText(header + '*.example.com +proxy', profiles)).toThrow(
+      "Line 3: Missing default rule with catch-all '*' condition"
+    );
+    expect(() => switchRulesFromText('*.example.com +proxy\n* +direct', profiles)).toThrow(
+      "Line 1: Missing '@with result' directive"
+    );
+  });
+
+  it('should report unknown and circular result profiles', () => {
+    const header = '[SwitchyOmega Conditions]\n@with result\n';
+    expect(() => switchRulesFromText(header + '*.example.com +prxy\n* +direct', profiles)).toThrow(
+      'Line 3: Unknown profile: +prxy'
+    );
+    expect(() =>
+      switchRulesFromText(header + '*.example.com +proxy\n* +auto', {
+        ...profiles,
+        excludedNames: ['auto'],
+      })
+    ).toThrow('Line 4: Cannot use +auto, this profile would use itself');
+  });
+
+  it('should reject notes and tags on the catch-all rule', () => {
+    const text = '[SwitchyOmega Conditions]\n@with result\n@note Everything else\n* +direct';
+    expect(() => switchRulesFromText(text, profiles)).toThrow(
+      'Line 4: Notes and tags are not supported on the catch-all rule'
+    );
+  });
+});
+
+describe('rule search', () => {
+  const rules: SwitchRule[] = [
+    {
+      condition: { conditionType: 'HostWildcardCondition', pattern: '*.example.com' },
+      profileName: 'proxy',
+      note: 'Intranet',
+      tags: ['work', 'vpn'],
+    },
+    {
+      condition: { conditionType: 'HostWildcardCondition', pattern: '*.video.example' },
+      profileName: 'direct',
+      tags: ['media'],
+    },
+    { condition: { conditionType: 'KeywordCondition', pattern: 'ads' }, profileName: 'blackhole' },
+  ];
+
+  it('should match conditions, profiles, notes and tags', () => {
+    const indexes = (query: string, tag?: string) =>
+      searchRules(rules, query, tag).map(({ index }) => index);
+
+    expect(indexes('')).toEqual([0, 1, 2]);
+    expect(indexes('EXAMPLE')).toEqual([0, 1]);
+    expect(indexes('intranet')).toEqual([0]);
+    expect(indexes('black')).toEqual([2]);
+    expect(indexes('keyword')).toEqual([2]);
+    expect(indexes('', 'media')).toEqual([1]);
+    expect(indexes('example', 'work')).toEqual([0]);
+  });
+
+  it('should collect and parse tags', () => {
+    expect(ruleTags(rules)).toEqual(['media', 'vpn', 'work']);
+    expect(parseTags(' work, ,vpn,work ')).toEqual(['work', 'vpn']);
+  });
+});
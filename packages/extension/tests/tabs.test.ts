@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { OmegaOptions } from '@dev-zapi/switchyalpha-pac';
+
+// Mock Chrome API
+const mockChrome = {
+  tabs: {
+    query: vi.fn(async () => [
+      { id: 1, url: 'https://www.example.com/' },
+      { id: 2, url: 'https://intranet.local/' },
+      { id: 3, url: 'chrome://extensions/' },
+    ]),
+    reload: vi.fn(async () => {}),
+  },
+};
+vi.stubGlobal('chrome', mockChrome);
+
+const { reloadChangedTabs, resolveProxyResult, resolveTabs } = await import('../src/background/tabs');
+
+describe('Tab refresh', () => {
+  it('should only reload tabs that resolve to another profile', async () => {
+    const byHost = (profiles: Record<string, string>) => (url: string) =>
+      profiles[new URL(url).hostname] ?? null;
+
+    const before = await resolveTabs(
+      byHost({ 'www.example.com': 'proxy', 'intranet.local': 'direct' })
+    );
+    expect([...before.keys()]).toEqual([1, 2]);
+
+    const reloaded = await reloadChangedTabs(
+      before,
+      byHost({ 'www.example.com': 'direct', 'intranet.local': 'direct' })
+    );
+    expect(reloaded).toEqual([1]);
+    expect(mockChrome.tabs.reload).toHaveBeenCalledTimes(1);
+    expect(mockChrome.tabs.reload).toHaveBeenCalledWith(1);
+  });
+
+  it('should resolve nested switch profiles to the final proxy', () => {
+    const options = {
+      '+proxy': {
+        name: 'proxy',
+        profileType: 'FixedProfile',
+        fallbackProxy: { scheme: 'http', host: 'example.com', port: 8080 },
+      },
+      '+inner': {
+        name: 'inner',
+        profileType: 'SwitchProfile',
+        defaultProfileName: 'proxy',
+        rules: [
+          {
+            condition: { conditionType: 'HostWildcardCondition', pattern: '*.local' },
+            profileName: 'direct',
+          },
+        ],
+      },
+      '+outer': {
+        name: 'outer',
+        profileType: 'SwitchProfile',
+        defaultProfileName: 'inner',
+        rules: [],
+      },
+      '+other': {
+        name: 'other',
+        profileType: 'SwitchProfile',
+        defaultProfileName: 'proxy',
+        rules: [],
+      },
+    } as unknown as OmegaOptions;
+
+    const url = 'https://www.example.com/';
+    expect(resolveProxyResult(options, 'outer', url)).toBe('PROXY example.com:8080');
+    // Other intermediate profiles, same proxy
+    expect(resolveProxyResult(options, 'other', url)).toBe(
+      resolveProxyResult(options, 'outer', url)
+    );
+    expect(resolveProxyResult(options, 'outer', 'https://intranet.local/')).toBe('DIRECT');
+    expect(resolveProxyResult(options, 'missing', url)).toBeNull();
+  });
+});
@@ -32,6 +32,8 @@ export default defineConfig({
       input: {
         options: resolve(__dirname, 'src/options/index.html'),
         popup: resolve(__dirname, 'src/popup/index.html'),
+        sandbox: resolve(__dirname, 'src/sandbox/index.html'),
+        offscreen: resolve(__dirname, 'src/offscreen/index.html'),
       },
     },
   },
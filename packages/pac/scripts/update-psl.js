@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+/**
+ * Update the embedded Public Suffix List
+ *
+ * Downloads public_suffix_list.dat (or reads a local copy given as the first
+ * argument) and generates src/psl-data.ts with the ICANN and private rules.
+ * Rules are stored in their ASCII (punycode) form.
+ *
+ * Usage:
+ *   node scripts/update-psl.js [path/to/public_suffix_list.dat]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { domainToASCII, fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PSL_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+const OUTPUT_FILE = path.resolve(__dirname, '../src/psl-data.ts');
+
+/** Maximum length of a generated source line */
+const LINE_WIDTH = 96;
+
+/**
+ * Convert a rule to ASCII, keeping the wildcard and exception markers
+ */
+function ruleToAscii(rule) {
+  let prefix = '';
+  if (rule.startsWith('!')) {
+    prefix = '!';
+    rule = rule.substring(1);
+  }
+  if (rule.startsWith('*.')) {
+    prefix += '*.';
+    rule = rule.substring(2);
+  }
+  const ascii = domainToASCII(rule);
+  if (!ascii) {
+    throw new Error(`Invalid rule: ${prefix}${rule}`);
+  }
+  return prefix + ascii;
+}
+
+/**
+ * Parse the list into ICANN and private rules
+ */
+function parseList(content) {
+  const sections = { icann: [], private: [] };
+  let section = null;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (line.includes('===BEGIN ICANN DOMAINS===')) section = 'icann';
+    else if (line.includes('===BEGIN PRIVATE DOMAINS===')) section = 'private';
+    else if (line.includes('===END')) section = null;
+
+    if (!section || !line || line.startsWith('//')) continue;
+    // Rules end at the first whitespace
+    sections[section].push(ruleToAscii(line.split(/\s/)[0]));
+  }
+
+  if (sections.icann.length === 0 || sections.private.length === 0) {
+    throw new Error('Unexpected list format: missing ICANN or private section');
+  }
+  return sections;
+}
+
+/**
+ * Emit rules as a space separated string literal split over multiple lines
+ */
+function emitRules(name, rules) {
+  const chunks = [];
+  let chunk = '';
+  for (const rule of rules) {
+    if (chunk && chunk.length + rule.length + 1 > LINE_WIDTH) {
+      chunks.push(chunk + ' ');
+      chunk = '';
+    }
+    chunk += (chunk ? ' ' : '') + rule;
+  }
+  chunks.push(chunk);
+
+  return `export const ${name} =\n` + chunks.map((c) => `  '${c}'`).join(' +\n') + ';\n';
+}
+
+async function main() {
+  const source = process.argv[2];
+  let content;
+  if (source) {
+    console.log(`Reading ${source}`);
+    content = fs.readFileSync(source, 'utf8');
+  } else {
+    console.log(`Downloading ${PSL_URL}`);
+    const response = await fetch(PSL_URL);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} when fetching ${PSL_URL}`);
+    }
+    content = await response.text();
+  }
+
+  const { icann, private: privateRules } = parseList(content);
+
+  const output = `/**
+ * Auto-generated Public Suffix List data (https://publicsuffix.org/)
+ * Generated by scripts/update-psl.js
+ *
+ * The list is subject to the Mozilla Public License, v. 2.0.
+ * Rules are space separated and in ASCII (punycode) form.
+ *
+ * DO NOT EDIT MANUALLY
+ */
+
+/** Rules from the ICANN section */
+${emitRules('ICANN_RULES', icann)}
+/** Rules from the private section */
+${emitRules('PRIVATE_RULES', privateRules)}`;
+
+  fs.writeFileSync(OUTPUT_FILE, output);
+  console.log(
+    `Wrote ${icann.length} ICANN and ${privateRules.length} private rules to ${OUTPUT_FILE}`
+  );
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
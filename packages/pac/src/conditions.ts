@@ -63,34 +63,141 @@ function regexToCode(regex: RegExp, varName: string): string {
 }
 
 /**
- * Parse IP address (simplified version)
+ * Parsed IP address
  */
-export function parseIp(ip: string): { v4: boolean; address: string } | null {
+export interface ParsedIp {
+  /** True for IPv4, false for IPv6 */
+  v4: boolean;
+  /** Normalized address (dotted quad, or RFC 5952 compressed IPv6) */
+  address: string;
+  /** Address as 16-bit words (2 for IPv4, 8 for IPv6) */
+  words: number[];
+}
+
+/**
+ * Parse a dotted-quad IPv4 address to its four octets
+ */
+function parseIpv4Octets(ip: string): number[] | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  const octets: number[] = [];
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = parseInt(part, 10);
+    if (octet > 255) return null;
+    octets.push(octet);
+  }
+  return octets;
+}
+
+/**
+ * Parse an IPv6 address (compressed forms and embedded IPv4) to eight 16-bit words
+ */
+function parseIpv6Words(ip: string): number[] | null {
+  let tail: number[] = [];
+
+  // Embedded IPv4 in the last 32 bits, e.g. ::ffff:192.0.2.1
+  const lastColon = ip.lastIndexOf(':');
+  if (ip.indexOf('.', lastColon) > 0) {
+    const octets = parseIpv4Octets(ip.substring(lastColon + 1));
+    if (!octets) return null;
+    tail = [(octets[0]! << 8) | octets[1]!, (octets[2]! << 8) | octets[3]!];
+    // Keep a '::' directly before the IPv4 part, drop a single ':'
+    ip = ip.substring(0, ip.charCodeAt(lastColon - 1) === COLON_CHAR_CODE ? lastColon + 1 : lastColon);
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length > 1 && halves[1] ? halves[1].split(':') : [];
+  const fill = 8 - tail.length - head.length - rest.length;
+  // '::' stands for at least one group of zeros
+  if (halves.length > 1 ? fill < 1 : fill !== 0) return null;
+
+  const words: number[] = [];
+  for (const group of [...head, ...new Array<string>(fill).fill('0'), ...rest]) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+    words.push(parseInt(group, 16));
+  }
+  return words.concat(tail);
+}
+
+/**
+ * Format IPv6 words in the RFC 5952 canonical form
+ */
+function formatIpv6(words: number[]): string {
+  // Find the longest run of zero words (at least two) to compress
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < words.length; i++) {
+    let j = i;
+    while (j < words.length && words[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = words.map((w) => w.toString(16));
+  if (bestStart < 0) return hex.join(':');
+  return (
+    hex.slice(0, bestStart).join(':') + '::' + hex.slice(bestStart + bestLength).join(':')
+  );
+}
+
+/**
+ * Parse an IPv4 or IPv6 address
+ *
+ * Accepts bracketed IPv6 ([::1]) and strips zone ids (fe80::1%eth0).
+ */
+export function parseIp(ip: string): ParsedIp | null {
   // Remove brackets for IPv6
-  if (ip.charCodeAt(0) === '['.charCodeAt(0)) {
+  if (
+    ip.charCodeAt(0) === '['.charCodeAt(0) &&
+    ip.charCodeAt(ip.length - 1) === ']'.charCodeAt(0)
+  ) {
     ip = ip.substring(1, ip.length - 1);
   }
 
   // Check for IPv6
   if (ip.indexOf(':') >= 0) {
-    // Basic IPv6 validation
-    if (/^[0-9a-fA-F:]+$/.test(ip)) {
-      return { v4: false, address: ip };
+    const zone = ip.indexOf('%');
+    if (zone >= 0) {
+      ip = ip.substring(0, zone);
     }
-    return null;
+    const words = parseIpv6Words(ip);
+    return words ? { v4: false, address: formatIpv6(words), words } : null;
   }
 
   // Check for IPv4
-  const parts = ip.split('.');
-  if (parts.length === 4 && parts.every((p) => /^\d+$/.test(p) && parseInt(p) <= 255)) {
-    return { v4: true, address: ip };
+  const octets = parseIpv4Octets(ip);
+  if (octets) {
+    return {
+      v4: true,
+      address: octets.join('.'),
+      words: [(octets[0]! << 8) | octets[1]!, (octets[2]! << 8) | octets[3]!],
+    };
   }
 
   return null;
 }
 
 /**
- * Check if an IP is in a subnet (simplified)
+ * Check if the first prefixLength bits of two word arrays are equal
+ */
+function wordsPrefixMatch(a: number[], b: number[], prefixLength: number): boolean {
+  for (let i = 0; i < a.length && prefixLength > 0; i++, prefixLength -= 16) {
+    const mask = prefixLength >= 16 ? 0xffff : (0xffff << (16 - prefixLength)) & 0xffff;
+    if ((a[i]! & mask) !== (b[i]! & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * Check if an IP is in a subnet
  */
 export function isIpInSubnet(ip: string, subnet: string, prefixLength: number): boolean {
   const ipAddr = parseIp(ip);
@@ -99,22 +206,76 @@ export function isIpInSubnet(ip: string, subnet: string, prefixLength: number):
   if (!ipAddr || !subnetAddr) return false;
   if (ipAddr.v4 !== subnetAddr.v4) return false;
 
-  if (ipAddr.v4) {
-    // IPv4 subnet check
-    const ipNum = ipToNumber(ipAddr.address);
-    const subnetNum = ipToNumber(subnetAddr.address);
-    const mask = (0xffffffff << (32 - prefixLength)) >>> 0;
-    return (ipNum & mask) === (subnetNum & mask);
+  return wordsPrefixMatch(ipAddr.words, subnetAddr.words, prefixLength);
+}
+
+/** Name of the generated PAC helper matching IPv6 literals against a subnet */
+const IN_SUBNET_HELPER = '_isInSubnet6';
+
+/**
+ * PAC helper source for IPv6 subnet matching (ES5, no DNS lookups)
+ *
+ * Mirrors parseIp/isIpInSubnet, since PAC engines only provide IPv4 isInNet.
+ */
+const IN_SUBNET_HELPER_CODE = `function ${IN_SUBNET_HELPER}(host, subnet, prefixLength) {
+  function words(ip) {
+    if (ip.charAt(0) === '[' && ip.charAt(ip.length - 1) === ']') ip = ip.substring(1, ip.length - 1);
+    if (ip.indexOf('%') >= 0) ip = ip.substring(0, ip.indexOf('%'));
+    var last = ip.lastIndexOf(':'), tail = [], i;
+    if (last < 0) return null;
+    if (ip.indexOf('.', last) > 0) {
+      var o = ip.substring(last + 1).split('.');
+      if (o.length !== 4) return null;
+      for (i = 0; i < 4; i++) if (!/^\\d{1,3}$/.test(o[i]) || +o[i] > 255) return null;
+      tail = [o[0] * 256 + +o[1], o[2] * 256 + +o[3]];
+      ip = ip.substring(0, ip.charAt(last - 1) === ':' ? last + 1 : last);
+    }
+    var halves = ip.split('::');
+    if (halves.length > 2) return null;
+    var head = halves[0] ? halves[0].split(':') : [];
+    var rest = halves.length > 1 && halves[1] ? halves[1].split(':') : [];
+    var fill = 8 - tail.length - head.length - rest.length;
+    if (halves.length > 1 ? fill < 1 : fill !== 0) return null;
+    var groups = head;
+    for (i = 0; i < fill; i++) groups = groups.concat(['0']);
+    groups = groups.concat(rest);
+    var result = [];
+    for (i = 0; i < groups.length; i++) {
+      if (!/^[0-9a-fA-F]{1,4}$/.test(groups[i])) return null;
+      result.push(parseInt(groups[i], 16));
+    }
+    return result.concat(tail);
+  }
+  var a = words(host), b = words(subnet);
+  if (!a || !b) return false;
+  for (var i = 0; i < 8 && prefixLength > 0; i++, prefixLength -= 16) {
+    var mask = prefixLength >= 16 ? 0xffff : (0xffff << (16 - prefixLength)) & 0xffff;
+    if ((a[i] & mask) !== (b[i] & mask)) return false;
+  }
+  return true;
+}`;
+
+/**
+ * Compile an IP subnet check on the host to a PAC expression
+ */
+function compileSubnet(addr: ParsedIp, prefixLength: number): string {
+  if (!addr.v4) {
+    return `${IN_SUBNET_HELPER}(host, '${addr.address}', ${prefixLength})`;
   }
 
-  // IPv6 - simplified, just check prefix match
-  // A proper implementation would use a library
-  return false;
+  // Use PAC's built-in isInNet function for IPv4
+  const mask = prefixLength > 0 ? (0xffffffff << (32 - prefixLength)) >>> 0 : 0;
+  const maskStr = [(mask >>> 24) & 255, (mask >>> 16) & 255, (mask >>> 8) & 255, mask & 255].join(
+    '.'
+  );
+  return `isInNet(host, '${addr.address}', '${maskStr}')`;
 }
 
-function ipToNumber(ip: string): number {
-  const parts = ip.split('.').map((p) => parseInt(p));
-  return ((parts[0]! << 24) | (parts[1]! << 16) | (parts[2]! << 8) | parts[3]!) >>> 0;
+/**
+ * Get the PAC helper functions used by compiled condition code
+ */
+export function pacHelpers(code: string): string[] {
+  return code.indexOf(IN_SUBNET_HELPER + '(') >= 0 ? [IN_SUBNET_HELPER_CODE] : [];
 }
 
 /**
@@ -255,18 +416,28 @@ const conditionTypes: Record<string, ConditionHandler> = {
 
       // Check for port
       let matchPort: string | undefined;
-      const serverIp = parseIp(server);
+      let serverIp = parseIp(server);
       if (!serverIp) {
         const pos = server.lastIndexOf(':');
         if (pos >= 0) {
           matchPort = server.substring(pos + 1);
           server = server.substring(0, pos);
+          serverIp = parseIp(server);
         }
       }
 
       if (serverIp) {
         server = serverIp.address;
         cache.normalizedPattern += serverIp.v4 ? server : '[' + server + ']';
+        if (!serverIp.v4) {
+          // Hosts are bracketed in URLs, and may be written in other forms
+          if (matchPort) {
+            server = '[' + server + ']';
+          } else {
+            cache.ip = { ip: server, prefixLength: 128 };
+            return cache;
+          }
+        }
       } else {
         if (server.charCodeAt(0) === '.'.charCodeAt(0)) {
           server = '*' + server;
@@ -307,7 +478,8 @@ const conditionTypes: Record<string, ConditionHandler> = {
           return (
             request.host === '127.0.0.1' ||
             request.host === '::1' ||
-            request.host.indexOf('.') < 0
+            request.host === '[::1]' ||
+            (request.host.indexOf('.') < 0 && request.host.indexOf(':') < 0)
           );
         } else if (!(c.host as RegExp).test(request.host)) {
           return false;
@@ -330,7 +502,7 @@ const conditionTypes: Record<string, ConditionHandler> = {
 
       // Handle <local>
       if (c.host === '<local>') {
-        return "(host === '127.0.0.1' || host === '::1' || host.indexOf('.') < 0)";
+        return "(host === '127.0.0.1' || host === '::1' || host === '[::1]' || (host.indexOf('.') < 0 && host.indexOf(':') < 0))";
       }
 
       // Scheme check
@@ -338,17 +510,10 @@ const conditionTypes: Record<string, ConditionHandler> = {
         conditions.push(`scheme === '${escapeJsString(c.scheme)}'`);
       }
 
-      // IP/CIDR check - simplified, use isInNet for IPv4
+      // IP/CIDR check
       if (c.ip) {
-        // Use PAC's built-in isInNet function for IPv4
-        const mask = (0xffffffff << (32 - c.ip.prefixLength)) >>> 0;
-        const maskStr = [
-          (mask >>> 24) & 255,
-          (mask >>> 16) & 255,
-          (mask >>> 8) & 255,
-          mask & 255,
-        ].join('.');
-        conditions.push(`isInNet(host, '${c.ip.ip}', '${maskStr}')`);
+        const addr = parseIp(c.ip.ip);
+        conditions.push(addr ? compileSubnet(addr, c.ip.prefixLength) : 'false');
       }
 
       // Host regex check
@@ -400,30 +565,23 @@ const conditionTypes: Record<string, ConditionHandler> = {
       const hostAddr = parseIp(request.host);
       if (!hostAddr) return false;
 
-      const { addr } = cache.analyzed as { addr: { v4: boolean; address: string } };
+      const { addr } = cache.analyzed as { addr: ParsedIp };
       if (hostAddr.v4 !== addr.v4) return false;
 
-      return isIpInSubnet(request.host, c.ip, c.prefixLength);
+      return wordsPrefixMatch(hostAddr.words, addr.words, c.prefixLength);
     },
-    compile: (condition) => {
+    compile: (condition, cache) => {
       const c = condition as { ip: string; prefixLength: number };
-      // Use PAC's built-in isInNet function
-      const mask = (0xffffffff << (32 - c.prefixLength)) >>> 0;
-      const maskStr = [
-        (mask >>> 24) & 255,
-        (mask >>> 16) & 255,
-        (mask >>> 8) & 255,
-        mask & 255,
-      ].join('.');
-      return `isInNet(host, '${c.ip}', '${maskStr}')`;
+      const { addr } = cache.analyzed as { addr: ParsedIp };
+      return compileSubnet(addr, c.prefixLength);
     },
     str: (condition) => {
       const c = condition as { ip: string; prefixLength: number };
       return c.ip + '/' + c.prefixLength;
     },
     fromStr: (str, condition) => {
-      const addr = parseIp(str.split('/')[0]!);
-      const prefixLength = parseInt(str.split('/')[1] ?? '32');
+      const addr = parseIp(str.split('/')[0]!.trim());
+      const prefixLength = parseInt(str.split('/')[1] ?? (addr?.v4 === false ? '128' : '32'));
       if (addr) {
         (condition as { ip: string; prefixLength: number }).ip = addr.address;
         (condition as { ip: string; prefixLength: number }).prefixLength = prefixLength;
@@ -20,15 +20,27 @@ export {
   requestFromUrl,
 } from './utils';
 
+// Public Suffix List
+export { getPublicSuffix, getRegistrableDomain } from './psl';
+export type { PublicSuffixOptions } from './psl';
+
 // Shell expression utilities
 export { shExp2RegExp, escapeSlash, safeRegex, regExpMetaChars } from './shexp-utils';
 
 // Conditions
-export { Conditions, parseIp, isIpInSubnet, urlWildcard2HostWildcard, LOCAL_HOSTS } from './conditions';
+export {
+  Conditions,
+  parseIp,
+  isIpInSubnet,
+  pacHelpers,
+  urlWildcard2HostWildcard,
+  LOCAL_HOSTS,
+} from './conditions';
+export type { ParsedIp } from './conditions';
 
 // Rule List
-export { RuleList } from './rule-list';
-export type { ParsedRule, RuleListFormat } from './rule-list';
+export { RuleList, RuleListError } from './rule-list';
+export type { ParsedRule, RuleListFormat, RuleListParseOptions } from './rule-list';
 
 // Profiles
 export {
@@ -48,7 +60,25 @@ export {
   getRandomEmoji,
   getDefaultColor,
 } from './profiles';
+export type { MatchHop, MatchOptions, PacEvaluator } from './profiles';
+
+// Fixed servers proxy rules
+export { fixedServersRules, bypassListFor } from './proxy-rules';
+export type { FixedServersRules, ProxyRulesServer } from './proxy-rules';
 
 // PAC Generator
-export { PacGenerator, generatePacScript } from './pac-generator';
+export { PacGenerator, generatePacScript, UNREACHABLE_PROXY } from './pac-generator';
 export type { PacGeneratorOptions } from './pac-generator';
+
+// PAC runtime
+export {
+  pacUtils,
+  createPacUtils,
+  resolveIpLiteral,
+  compilePacScript,
+  evaluatePacScript,
+  pacHostFromUrl,
+  normalizePacResult,
+  parsePacResult,
+} from './pac-runtime';
+export type { FindProxyForUrl, DnsResolver, PacRuntimeOptions } from './pac-runtime';
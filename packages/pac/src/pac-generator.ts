@@ -5,7 +5,7 @@
  * PAC scripts are JavaScript functions that determine which proxy to use for a given URL.
  */
 
-import { Conditions } from './conditions';
+import { Conditions, pacHelpers } from './conditions';
 import { Profiles, pacResult, schemes } from './profiles';
 import { RuleList } from './rule-list';
 import type {
@@ -29,6 +29,13 @@ function escapeJsString(str: string): string {
     .replace(/\r/g, '\\r');
 }
 
+/**
+ * Result for PAC URL profiles without a downloaded script
+ *
+ * Requests fail on the unreachable proxy rather than silently going direct.
+ */
+export const UNREACHABLE_PROXY = 'PROXY 127.0.0.1:9';
+
 /**
  * Convert profile name to a valid JavaScript function name
  */
@@ -95,8 +102,18 @@ export class PacGenerator {
     const mainProfileFn = profileFunctionName(profileName);
     const mainFunction = this.generateMain(mainProfileFn);
 
+    // Add helpers required by compiled conditions
+    const helpers = pacHelpers(this.profileFunctions.join(this.eol)).map((code) =>
+      code.replace(/\n/g, this.eol)
+    );
+
     // Combine all functions
-    return this.profileFunctions.join(this.eol + this.eol) + this.eol + this.eol + mainFunction;
+    return (
+      [...helpers, ...this.profileFunctions].join(this.eol + this.eol) +
+      this.eol +
+      this.eol +
+      mainFunction
+    );
   }
 
   /**
@@ -262,7 +279,7 @@ export class PacGenerator {
 
   /**
    * Generate function for PacProfile
-   * Embeds the PAC script directly or references the URL
+   * Embeds the inline PAC script, or the cached copy downloaded from pacUrl
    */
   private generatePacProfile(profile: PacProfile): string {
     const fnName = profileFunctionName(profile.name);
@@ -270,6 +287,12 @@ export class PacGenerator {
 
     if (this.includeComments) {
       lines.push(`// PacProfile: ${profile.name}`);
+      if (profile.pacUrl && profile.pacScript) {
+        const lastUpdate = profile.lastUpdate ?? 'unknown';
+        lines.push(
+          `// Downloaded from "${escapeJsString(profile.pacUrl)}" (last update: ${lastUpdate})`
+        );
+      }
     }
 
     if (profile.pacScript) {
@@ -286,13 +309,15 @@ export class PacGenerator {
       lines.push(`  return ${pacFnName}(url, host);`);
       lines.push('}');
     } else if (profile.pacUrl) {
-      // For URL-based PAC, we cannot fetch it at runtime in a PAC script
-      // This would need to be handled by the extension fetching and embedding the script
+      // A PAC URL cannot be fetched from within a PAC script, so nothing can
+      // be embedded until the extension has downloaded it
       if (this.includeComments) {
-        lines.push(`// Note: PAC URL "${profile.pacUrl}" should be fetched and embedded`);
+        lines.push(
+          `// Note: PAC URL "${escapeJsString(profile.pacUrl)}" has not been downloaded yet`
+        );
       }
       lines.push(`function ${fnName}(url, host, scheme) {`);
-      lines.push('  return "DIRECT";');
+      lines.push(`  return "${UNREACHABLE_PROXY}";`);
       lines.push('}');
     } else {
       lines.push(`function ${fnName}(url, host, scheme) {`);
@@ -0,0 +1,418 @@
+/**
+ * PAC script runtime
+ *
+ * Evaluates PAC scripts outside of the browser proxy resolver, e.g. to match
+ * PacProfiles or to compare generated scripts with in-extension matching:
+ * - Implements the standard PAC helper functions (isInNet, shExpMatch, ...)
+ *   and the IPv6 aware "Ex" extensions
+ * - DNS resolution and the clock are pluggable (see PacRuntimeOptions)
+ * - Scripts only see the helpers; common globals are shadowed
+ *
+ * Shadowing globals is not a security boundary. Untrusted scripts must be run
+ * in an isolated context (e.g. a sandboxed extension page).
+ */
+
+import { parseIp, isIpInSubnet, type ParsedIp } from './conditions';
+import type { Proxy, ProxyScheme } from './types';
+import { shExp2RegExp } from './shexp-utils';
+
+/**
+ * A compiled FindProxyForURL function
+ */
+export type FindProxyForUrl = (url: string, host: string) => string;
+
+/**
+ * Resolve a host name to its IP addresses (IPv4 and IPv6)
+ */
+export type DnsResolver = (host: string) => string[];
+
+/**
+ * PAC runtime environment
+ */
+export interface PacRuntimeOptions {
+  /** DNS resolution for dnsResolve, isInNet, etc. (default: IP literals only) */
+  dnsResolve?: DnsResolver;
+  /** Addresses returned by myIpAddress and myIpAddressEx (default: loopback) */
+  myIpAddresses?: string[];
+  /** Clock for weekdayRange, dateRange and timeRange */
+  now?: () => Date;
+}
+
+/** Day names used by weekdayRange */
+const WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/** Month names used by dateRange */
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/** Globals hidden from PAC scripts */
+const SHADOWED_GLOBALS = [
+  'globalThis',
+  'window',
+  'self',
+  'global',
+  'chrome',
+  'browser',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'importScripts',
+  'postMessage',
+  'localStorage',
+  'indexedDB',
+  'process',
+  'require',
+];
+
+/**
+ * Default DNS resolver: only IP literals resolve, as there is no DNS outside
+ * of the browser proxy resolver
+ */
+export function resolveIpLiteral(host: string): string[] {
+  const ip = parseIp(host);
+  return ip ? [ip.address] : [];
+}
+
+/**
+ * Check if the current time is in a range of keys, wrapping around if lower > upper
+ */
+function inRange(current: number, lower: number, upper: number): boolean {
+  return lower <= upper
+    ? lower <= current && current <= upper
+    : current >= lower || current <= upper;
+}
+
+/**
+ * Split off a trailing 'GMT' argument
+ */
+function splitGmt(args: unknown[]): { args: unknown[]; gmt: boolean } {
+  if (args.length > 0 && args[args.length - 1] === 'GMT') {
+    return { args: args.slice(0, -1), gmt: true };
+  }
+  return { args, gmt: false };
+}
+
+/**
+ * Create the standard PAC helper functions for a runtime environment
+ */
+export function createPacUtils(options: PacRuntimeOptions = {}) {
+  const dnsResolve = options.dnsResolve ?? resolveIpLiteral;
+  const now = options.now ?? (() => new Date());
+  const myIps = (options.myIpAddresses ?? ['127.0.0.1', '::1'])
+    .map((ip) => parseIp(ip))
+    .filter((ip): ip is ParsedIp => ip !== null);
+
+  // IP literals are never looked up; resolver failures count as unresolvable
+  const resolve = (host: string): ParsedIp[] => {
+    const literal = parseIp(host);
+    if (literal) return [literal];
+    try {
+      return dnsResolve(host)
+        .map((ip) => parseIp(ip))
+        .filter((ip): ip is ParsedIp => ip !== null);
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    isPlainHostName(host: string): boolean {
+      return host.indexOf('.') < 0;
+    },
+
+    dnsDomainIs(host: string, domain: string): boolean {
+      host = host.toLowerCase();
+      domain = domain.toLowerCase();
+      return (
+        host.length >= domain.length && host.substring(host.length - domain.length) === domain
+      );
+    },
+
+    localHostOrDomainIs(host: string, hostdom: string): boolean {
+      host = host.toLowerCase();
+      hostdom = hostdom.toLowerCase();
+      if (host === hostdom) return true;
+      return host.indexOf('.') < 0 && hostdom.indexOf(host + '.') === 0;
+    },
+
+    isResolvable(host: string): boolean {
+      return resolve(host).some((ip) => ip.v4);
+    },
+
+    isResolvableEx(host: string): boolean {
+      return resolve(host).length > 0;
+    },
+
+    isInNet(host: string, pattern: string, mask: string): boolean {
+      const ip = resolve(host).find((address) => address.v4);
+      const net = parseIp(pattern);
+      const maskIp = parseIp(mask);
+      if (!ip?.v4 || !net?.v4 || !maskIp?.v4) return false;
+      return ip.words.every(
+        (word, i) => (word & maskIp.words[i]!) === (net.words[i]! & maskIp.words[i]!)
+      );
+    },
+
+    isInNetEx(host: string, prefix: string): boolean {
+      const slash = prefix.indexOf('/');
+      if (slash < 0) return false;
+      const length = parseInt(prefix.substring(slash + 1), 10);
+      if (isNaN(length)) return false;
+      const subnet = prefix.substring(0, slash);
+      return resolve(host).some((ip) => isIpInSubnet(ip.address, subnet, length));
+    },
+
+    dnsResolve(host: string): string | null {
+      return resolve(host).find((ip) => ip.v4)?.address ?? null;
+    },
+
+    dnsResolveEx(host: string): string {
+      return resolve(host)
+        .map((ip) => ip.address)
+        .join(';');
+    },
+
+    myIpAddress(): string {
+      return myIps.find((ip) => ip.v4)?.address ?? '127.0.0.1';
+    },
+
+    myIpAddressEx(): string {
+      return myIps.map((ip) => ip.address).join(';');
+    },
+
+    sortIpAddressList(list: string): string | false {
+      const ips = list.split(';').map((ip) => parseIp(ip.trim()));
+      if (ips.some((ip) => !ip)) return false;
+      // IPv6 addresses first, then by address words
+      return ips
+        .sort((a, b) => {
+          if (a!.v4 !== b!.v4) return a!.v4 ? 1 : -1;
+          for (let i = 0; i < a!.words.length; i++) {
+            if (a!.words[i] !== b!.words[i]) return a!.words[i]! - b!.words[i]!;
+          }
+          return 0;
+        })
+        .map((ip) => ip!.address)
+        .join(';');
+    },
+
+    getClientVersion(): string {
+      return '1.0';
+    },
+
+    convert_addr(ipchars: string): number {
+      const bytes = ipchars.split('.');
+      return (
+        (((parseInt(bytes[0]!, 10) & 0xff) << 24) |
+          ((parseInt(bytes[1]!, 10) & 0xff) << 16) |
+          ((parseInt(bytes[2]!, 10) & 0xff) << 8) |
+          (parseInt(bytes[3]!, 10) & 0xff)) >>>
+        0
+      );
+    },
+
+    dnsDomainLevels(host: string): number {
+      return host.split('.').length - 1;
+    },
+
+    shExpMatch(str: string, shexp: string): boolean {
+      return new RegExp(shExp2RegExp(shexp)).test(str);
+    },
+
+    weekdayRange(...rawArgs: unknown[]): boolean {
+      const { args, gmt } = splitGmt(rawArgs);
+      const date = now();
+      const today = gmt ? date.getUTCDay() : date.getDay();
+      const lower = WEEKDAYS.indexOf(String(args[0]).toUpperCase());
+      if (lower < 0) return false;
+      if (args.length < 2) return today === lower;
+      const upper = WEEKDAYS.indexOf(String(args[1]).toUpperCase());
+      if (upper < 0) return false;
+      return inRange(today, lower, upper);
+    },
+
+    dateRange(...rawArgs: unknown[]): boolean {
+      const { args, gmt } = splitGmt(rawArgs);
+      if (args.length < 1 || args.length > 6) return false;
+
+      const date = now();
+      const current = {
+        day: gmt ? date.getUTCDate() : date.getDate(),
+        month: gmt ? date.getUTCMonth() : date.getMonth(),
+        year: gmt ? date.getUTCFullYear() : date.getFullYear(),
+      };
+
+      // Each argument is a day (1-31), a month name or a 4-digit year
+      const fields = args.map((arg) => {
+        const month = MONTHS.indexOf(String(arg).toUpperCase());
+        if (month >= 0) return { kind: 'month' as const, value: month };
+        const value = parseInt(String(arg), 10);
+        return { kind: value < 32 ? ('day' as const) : ('year' as const), value };
+      });
+      if (fields.some((field) => isNaN(field.value))) return false;
+
+      if (fields.length === 1) {
+        return current[fields[0]!.kind] === fields[0]!.value;
+      }
+      if (fields.length % 2 !== 0) return false;
+
+      // Compare keys built from the fields given in the bounds (year, month, day)
+      const half = fields.length / 2;
+      const kinds = new Set(fields.slice(0, half).map((field) => field.kind));
+      const weights = { year: 10000, month: 100, day: 1 };
+      const key = (values: { kind: keyof typeof weights; value: number }[]) =>
+        values.reduce((sum, field) => sum + field.value * weights[field.kind], 0);
+
+      return inRange(
+        key([...kinds].map((kind) => ({ kind, value: current[kind] }))),
+        key(fields.slice(0, half)),
+        key(fields.slice(half))
+      );
+    },
+
+    timeRange(...rawArgs: unknown[]): boolean {
+      const { args, gmt } = splitGmt(rawArgs);
+      const values = args.map((arg) => parseInt(String(arg), 10));
+      if (values.some((value) => isNaN(value))) return false;
+
+      const date = now();
+      const hour = gmt ? date.getUTCHours() : date.getHours();
+      const minute = gmt ? date.getUTCMinutes() : date.getMinutes();
+      const second = gmt ? date.getUTCSeconds() : date.getSeconds();
+      const seconds = (h: number, m: number, s: number) => h * 3600 + m * 60 + s;
+      const current = seconds(hour, minute, second);
+
+      switch (values.length) {
+        case 1:
+          return hour === values[0];
+        case 2:
+          return inRange(hour, values[0]!, values[1]!);
+        case 4:
+          return inRange(
+            current,
+            seconds(values[0]!, values[1]!, 0),
+            seconds(values[2]!, values[3]!, 59)
+          );
+        case 6:
+          return inRange(
+            current,
+            seconds(values[0]!, values[1]!, values[2]!),
+            seconds(values[3]!, values[4]!, values[5]!)
+          );
+        default:
+          return false;
+      }
+    },
+
+    alert(message: unknown): void {
+      console.log('PAC alert:', message);
+    },
+  };
+}
+
+/**
+ * Standard PAC helper functions with the default runtime environment
+ */
+export const pacUtils = createPacUtils();
+
+/**
+ * Compile a PAC script into its FindProxyForURL function
+ *
+ * FindProxyForURLEx is preferred when the script defines it.
+ *
+ * @throws Error if the script is invalid or does not define FindProxyForURL
+ */
+export function compilePacScript(
+  script: string,
+  options: PacRuntimeOptions = {}
+): FindProxyForUrl {
+  const utils = createPacUtils(options);
+  const helperNames = Object.keys(utils);
+  const factory = new Function(
+    ...helperNames,
+    ...SHADOWED_GLOBALS,
+    script +
+      '\n;return typeof FindProxyForURLEx === "function" ? FindProxyForURLEx :' +
+      ' typeof FindProxyForURL === "function" ? FindProxyForURL : null;'
+  );
+  const helpers = helperNames.map((name) => utils[name as keyof typeof utils]);
+  const findProxy = factory(...helpers, ...SHADOWED_GLOBALS.map(() => undefined)) as
+    | ((url: string, host: string) => unknown)
+    | null;
+
+  if (!findProxy) {
+    throw new Error('PAC script does not define FindProxyForURL');
+  }
+  return (url, host) => String(findProxy(url, host));
+}
+
+/**
+ * Get the host passed to FindProxyForURL for a URL (IPv6 without brackets)
+ */
+export function pacHostFromUrl(url: string): string {
+  return new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Evaluate a PAC script for a URL
+ *
+ * @returns the PAC result, e.g. "PROXY example.com:8080; DIRECT"
+ */
+export function evaluatePacScript(
+  script: string,
+  url: string,
+  options: PacRuntimeOptions = {}
+): string {
+  return compilePacScript(script, options)(url, pacHostFromUrl(url));
+}
+
+/**
+ * Normalize a PAC result for comparison (keywords in upper case, single spaces)
+ */
+export function normalizePacResult(result: string): string {
+  return result
+    .split(';')
+    .map((part) => part.trim().split(/\s+/))
+    .filter((words) => words[0])
+    .map(([keyword, ...rest]) => [keyword!.toUpperCase(), ...rest].join(' '))
+    .join('; ');
+}
+
+/** PAC result keywords and the proxy schemes they stand for */
+const PAC_KEYWORD_SCHEMES: Record<string, ProxyScheme> = {
+  DIRECT: 'direct',
+  PROXY: 'http',
+  HTTP: 'http',
+  HTTPS: 'https',
+  SOCKS: 'socks4',
+  SOCKS4: 'socks4',
+  SOCKS5: 'socks5',
+};
+
+/**
+ * Parse a PAC result into its proxies, in order of preference
+ *
+ * Unknown entries are skipped.
+ */
+export function parsePacResult(result: string): Proxy[] {
+  const proxies: Proxy[] = [];
+  for (const part of normalizePacResult(result).split('; ')) {
+    const [keyword, server] = part.split(' ');
+    const scheme = PAC_KEYWORD_SCHEMES[keyword ?? ''];
+    if (!scheme) continue;
+    if (scheme === 'direct') {
+      proxies.push({ scheme });
+      continue;
+    }
+
+    const colon = server?.lastIndexOf(':') ?? -1;
+    if (!server || colon <= 0) continue;
+    const port = parseInt(server.substring(colon + 1), 10);
+    if (isNaN(port)) continue;
+    proxies.push({
+      scheme,
+      host: server.substring(0, colon).replace(/^\[(.*)\]$/, '$1'),
+      port,
+    });
+  }
+  return proxies;
+}
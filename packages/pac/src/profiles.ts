@@ -10,7 +10,14 @@
 import { Conditions } from './conditions';
 import { RuleList } from './rule-list';
 import { AttachedCache, Revision } from './utils';
+import {
+  compilePacScript,
+  parsePacResult,
+  type FindProxyForUrl,
+  type PacRuntimeOptions,
+} from './pac-runtime';
 import type {
+  Condition,
   Profile,
   ProfileType,
   Proxy,
@@ -320,6 +327,83 @@ export function updateRevision(profile: Profile, revision?: string): void {
   profile.revision = revision ?? Revision.fromTime();
 }
 
+/**
+ * Get the URL a profile downloads its content from, if any
+ */
+export function updateUrl(profile: Profile): string | undefined {
+  switch (profile.profileType) {
+    case 'PacProfile': {
+      const pac = profile as PacProfile;
+      return isFileUrl(pac.pacUrl) ? undefined : pac.pacUrl || undefined;
+    }
+    case 'RuleListProfile':
+    case 'AutoProxyRuleListProfile':
+      return (profile as RuleListProfile).sourceUrl || undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Content type hints for downloading profile content
+ *
+ * Types prefixed with '!' are rejected, '*' accepts anything else.
+ */
+export function updateContentTypeHints(profile: Profile): string[] {
+  switch (profile.profileType) {
+    case 'PacProfile':
+      return [
+        '!text/html',
+        '!application/xhtml+xml',
+        'application/x-ns-proxy-autoconfig',
+        'application/x-javascript-config',
+        'text/plain',
+        '*',
+      ];
+    default:
+      return ['!text/html', '!application/xhtml+xml', 'text/plain', '*'];
+  }
+}
+
+/**
+ * Update profile content with downloaded data
+ * @returns true if the content changed
+ */
+export function update(profile: Profile, data: string): boolean {
+  switch (profile.profileType) {
+    case 'PacProfile': {
+      const pac = profile as PacProfile;
+      if (pac.pacScript === data) return false;
+      pac.pacScript = data;
+      return true;
+    }
+    case 'RuleListProfile':
+    case 'AutoProxyRuleListProfile': {
+      const rl = profile as RuleListProfile;
+      let text = data.trim();
+
+      // Detect the format of the downloaded list, keeping the configured one otherwise
+      for (const [formatName, format] of Object.entries(RuleList)) {
+        if (format.detect?.(text)) {
+          rl.format = formatName as RuleListFormat;
+          break;
+        }
+      }
+
+      const preprocess = RuleList[rl.format]?.preprocess;
+      if (preprocess) {
+        text = preprocess(text);
+      }
+
+      if (rl.ruleList === text) return false;
+      rl.ruleList = text;
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
 /**
  * Drop cached data for a profile
  */
@@ -401,10 +485,81 @@ export function allReferenceSet(
   return result;
 }
 
+/**
+ * Options for matching requests against profiles
+ */
+export interface MatchOptions {
+  /** Runtime environment of PacProfile scripts, e.g. DNS resolution */
+  pacRuntime?: PacRuntimeOptions;
+}
+
+/**
+ * Evaluate a PAC script for a URL, e.g. in a sandbox page where code evaluation is allowed
+ */
+export type PacEvaluator = (script: string, url: string) => Promise<string>;
+
+/** Compiled PAC scripts of PacProfiles with the default runtime, or the compile error */
+const pacScriptCache = new AttachedCache<PacProfile, FindProxyForUrl | Error>(
+  (profile) => profile.pacScript ?? '',
+  '_pacScriptCache'
+);
+
+/**
+ * Compile a PAC script, returning the error instead of throwing it
+ */
+function compileOrError(script: string, runtime?: PacRuntimeOptions): FindProxyForUrl | Error {
+  try {
+    return compilePacScript(script, runtime);
+  } catch (e) {
+    return e instanceof Error ? e : new Error(String(e));
+  }
+}
+
+/**
+ * Get the match result for the result of a PAC script, null for an empty result
+ *
+ * The raw result is kept as the source, e.g. "PROXY a:1; DIRECT".
+ */
+function pacMatchResult(result: string): MatchResult | null {
+  const proxies = parsePacResult(result);
+  if (proxies.length === 0) return null;
+  return { source: result, proxy: proxies[0] };
+}
+
+/**
+ * Match a PacProfile by evaluating its PAC script
+ *
+ * Scripts are cached unless a runtime is given. Returns null if the script is missing,
+ * fails, or cannot be evaluated in the current environment (e.g. code evaluation is
+ * forbidden by a CSP, see matchChainAsync()).
+ */
+function matchPacScript(
+  profile: PacProfile,
+  request: Request,
+  runtime?: PacRuntimeOptions
+): MatchResult | null {
+  if (!profile.pacScript) return null;
+
+  const findProxy = runtime
+    ? compileOrError(profile.pacScript, runtime)
+    : pacScriptCache.get(profile, () => compileOrError(profile.pacScript!));
+  if (findProxy instanceof Error) return null;
+
+  try {
+    return pacMatchResult(findProxy(request.url, request.host.replace(/^\[(.*)\]$/, '$1')));
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Match a profile against a request
  */
-export function match(profile: Profile, request: Request): MatchResult | null {
+export function match(
+  profile: Profile,
+  request: Request,
+  matchOptions: MatchOptions = {}
+): MatchResult | null {
   switch (profile.profileType) {
     case 'SystemProfile':
       return null;
@@ -476,14 +631,87 @@ export function match(profile: Profile, request: Request): MatchResult | null {
     }
 
     case 'PacProfile':
-      // PAC profiles need runtime evaluation
-      return null;
+      return matchPacScript(profile as PacProfile, request, matchOptions.pacRuntime);
 
     default:
       return null;
   }
 }
 
+/**
+ * A single step taken while resolving a request through profiles
+ */
+export interface MatchHop {
+  profile: Profile;
+  result: MatchResult | null;
+}
+
+/**
+ * Follow match results from a profile until a non-inclusive profile is reached
+ *
+ * The last hop holds the final result (e.g. the proxy and auth of a FixedProfile).
+ * Resolution stops early on missing profiles and reference cycles.
+ */
+export function matchChain(
+  profile: string | Profile,
+  request: Request,
+  options: Record<string, Profile> = {},
+  matchOptions: MatchOptions = {}
+): MatchHop[] {
+  const hops: MatchHop[] = [];
+  const visited = new Set<string>();
+  let current = byName(profile, options);
+
+  while (current && !visited.has(current.name)) {
+    visited.add(current.name);
+    const result = match(current, request, matchOptions);
+    hops.push({ profile: current, result });
+
+    if (!result?.profileName || !isInclusive(current)) break;
+    current = byName(result.profileName, options);
+  }
+
+  return hops;
+}
+
+/**
+ * Follow match results like matchChain(), evaluating PAC scripts with an evaluator
+ *
+ * For environments that cannot evaluate PAC scripts in-process, such as extension
+ * pages and service workers under the default CSP.
+ */
+export async function matchChainAsync(
+  profile: string | Profile,
+  request: Request,
+  options: Record<string, Profile>,
+  evaluatePac: PacEvaluator
+): Promise<MatchHop[]> {
+  const hops: MatchHop[] = [];
+  const visited = new Set<string>();
+  let current = byName(profile, options);
+
+  while (current && !visited.has(current.name)) {
+    visited.add(current.name);
+    let result: MatchResult | null;
+    if (current.profileType === 'PacProfile') {
+      const script = (current as PacProfile).pacScript;
+      try {
+        result = script ? pacMatchResult(await evaluatePac(script, request.url)) : null;
+      } catch {
+        result = null;
+      }
+    } else {
+      result = match(current, request);
+    }
+    hops.push({ profile: current, result });
+
+    if (!result?.profileName || !isInclusive(current)) break;
+    current = byName(result.profileName, options);
+  }
+
+  return hops;
+}
+
 /**
  * Replace references to a profile with another
  */
@@ -526,6 +754,27 @@ export function replaceRef(profile: Profile, fromName: string, toName: string):
   return changed;
 }
 
+/**
+ * Add a rule for a condition to the top of a SwitchProfile
+ *
+ * An existing rule with the same condition is replaced, and the new rule is
+ * added first so that it is not shadowed by broader rules.
+ *
+ * @returns false if the profile does not have rules
+ */
+export function addCondition(profile: Profile, condition: Condition, profileName: string): boolean {
+  const rules = (profile as SwitchProfile).rules;
+  if (profile.profileType !== 'SwitchProfile' || !Array.isArray(rules)) return false;
+
+  const tag = Conditions.tag(condition);
+  const index = rules.findIndex((rule) => Conditions.tag(rule.condition) === tag);
+  if (index >= 0) {
+    rules.splice(index, 1);
+  }
+  rules.unshift({ condition, profileName });
+  return true;
+}
+
 /**
  * Profiles module API
  */
@@ -550,11 +799,17 @@ export const Profiles = {
   isInclusive,
   create,
   updateRevision,
+  updateUrl,
+  updateContentTypeHints,
+  update,
   dropCache,
   directReferenceSet,
   allReferenceSet,
   match,
+  matchChain,
+  matchChainAsync,
   replaceRef,
+  addCondition,
 };
 
 export default Profiles;
@@ -0,0 +1,155 @@
+/**
+ * Fixed servers proxy rules
+ *
+ * Converts a FixedProfile to the rules of the browser's fixed_servers proxy mode
+ * (chrome.proxy.ProxyRules), so it can be applied without a PAC script.
+ * Profiles that cannot be expressed exactly must be applied as a PAC script instead.
+ */
+
+import { parseIp } from './conditions';
+import { pacProtocols, schemes } from './profiles';
+import type { Condition, FixedProfile, IpCondition, PatternCondition, Proxy } from './types';
+
+/**
+ * Proxy server in fixed_servers rules
+ */
+export interface ProxyRulesServer {
+  scheme: 'http' | 'https' | 'socks4' | 'socks5';
+  host: string;
+  port?: number;
+}
+
+/**
+ * Rules for the fixed_servers proxy mode
+ *
+ * Either singleProxy or the scheme-specific proxies are set, never both.
+ */
+export interface FixedServersRules {
+  singleProxy?: ProxyRulesServer;
+  proxyForHttp?: ProxyRulesServer;
+  proxyForHttps?: ProxyRulesServer;
+  proxyForFtp?: ProxyRulesServer;
+  fallbackProxy?: ProxyRulesServer;
+  bypassList?: string[];
+}
+
+/**
+ * Convert a proxy to a proxy server, undefined if it connects directly
+ */
+function proxyServer(proxy?: Proxy): ProxyRulesServer | undefined {
+  if (!proxy?.host || !pacProtocols[proxy.scheme]) return undefined;
+  return {
+    scheme: proxy.scheme as ProxyRulesServer['scheme'],
+    host: proxy.host,
+    ...(proxy.port !== undefined && { port: proxy.port }),
+  };
+}
+
+/**
+ * Translate a HostWildcardCondition pattern to bypass list entries
+ */
+function hostWildcardBypass(pattern: string): string[] | null {
+  const entries: string[] = [];
+  for (let part of pattern.split('|').filter(Boolean)) {
+    // Bypass lists only support the * wildcard
+    if (part.includes('?')) return null;
+
+    if (part.charCodeAt(0) === '.'.charCodeAt(0)) {
+      part = '*' + part;
+    }
+
+    if (part.indexOf('**.') === 0) {
+      // Subdomains only
+      entries.push(part.substring(1));
+    } else if (part.indexOf('*.') === 0) {
+      // The domain itself and its subdomains
+      entries.push(part.substring(2), part);
+    } else {
+      entries.push(part);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Translate a condition to bypass list entries
+ *
+ * @returns The entries, or null if the condition cannot be expressed in a bypass list
+ */
+function conditionBypass(condition: Condition): string[] | null {
+  switch (condition.conditionType) {
+    case 'BypassCondition':
+      // Bypass conditions use the bypass list syntax already
+      return [(condition as PatternCondition).pattern].filter(Boolean);
+    case 'HostWildcardCondition':
+      return hostWildcardBypass((condition as PatternCondition).pattern);
+    case 'IpCondition': {
+      const { ip, prefixLength } = condition as IpCondition;
+      const addr = parseIp(ip);
+      return addr ? [`${addr.address}/${prefixLength}`] : null;
+    }
+    case 'TrueCondition':
+      return ['*'];
+    case 'FalseCondition':
+      return [];
+    default:
+      // Regex, keyword, host level and time based conditions have no equivalent
+      return null;
+  }
+}
+
+/**
+ * Translate conditions to a bypass list
+ *
+ * @returns The bypass list, or null if any condition cannot be expressed in it
+ */
+export function bypassListFor(conditions: Condition[]): string[] | null {
+  const bypassList: string[] = [];
+  for (const condition of conditions) {
+    const entries = conditionBypass(condition);
+    if (!entries) return null;
+    bypassList.push(...entries);
+  }
+  return bypassList;
+}
+
+/**
+ * Build the fixed_servers rules for a FixedProfile, including its bypass list
+ *
+ * @returns The rules, or null if the profile connects directly for all schemes
+ *   or cannot be expressed as fixed_servers rules
+ */
+export function fixedServersRules(profile: FixedProfile): FixedServersRules | null {
+  const bypassList = bypassListFor(profile.bypassList ?? []);
+  if (!bypassList) return null;
+
+  const fallbackProxy = proxyServer(profile.fallbackProxy);
+  const rules: FixedServersRules = {};
+  let hasSchemeSpecific = false;
+
+  for (const { scheme, prop } of schemes) {
+    if (!scheme || !profile[prop]) continue;
+
+    const server = proxyServer(profile[prop]);
+    if (!server) {
+      // A single scheme cannot connect directly while others use the fallback
+      if (fallbackProxy) return null;
+      continue;
+    }
+    rules[prop] = server;
+    hasSchemeSpecific = true;
+  }
+
+  if (hasSchemeSpecific) {
+    if (fallbackProxy) rules.fallbackProxy = fallbackProxy;
+  } else if (fallbackProxy) {
+    rules.singleProxy = fallbackProxy;
+  } else {
+    return null;
+  }
+
+  if (bypassList.length > 0) {
+    rules.bypassList = bypassList;
+  }
+  return rules;
+}
@@ -0,0 +1,137 @@
+/**
+ * Public Suffix List lookup
+ *
+ * Finds public suffixes and registrable domains using the embedded list
+ * (see scripts/update-psl.js), including wildcard and exception rules.
+ */
+
+import { ICANN_RULES, PRIVATE_RULES } from './psl-data';
+
+/**
+ * Public suffix lookup options
+ */
+export interface PublicSuffixOptions {
+  /** Also use rules from the private section, e.g. github.io (default: true) */
+  allowPrivate?: boolean;
+}
+
+/** Rule section: true for ICANN, false for private */
+type RuleTable = Map<string, boolean>;
+
+interface RuleTables {
+  /** Normal rules */
+  rules: RuleTable;
+  /** Wildcard rules (*.ck), keyed by the part after '*.' */
+  wildcards: RuleTable;
+  /** Exception rules (!www.ck), keyed by the part after '!' */
+  exceptions: RuleTable;
+}
+
+let tables: RuleTables | null = null;
+
+/**
+ * Build the lookup tables on first use
+ */
+function getTables(): RuleTables {
+  if (tables) return tables;
+
+  const result: RuleTables = { rules: new Map(), wildcards: new Map(), exceptions: new Map() };
+  const add = (list: string, icann: boolean) => {
+    for (const rule of list.split(' ')) {
+      if (rule.charCodeAt(0) === '!'.charCodeAt(0)) {
+        result.exceptions.set(rule.substring(1), icann);
+      } else if (rule.indexOf('*.') === 0) {
+        result.wildcards.set(rule.substring(2), icann);
+      } else {
+        result.rules.set(rule, icann);
+      }
+    }
+  };
+  add(ICANN_RULES, true);
+  add(PRIVATE_RULES, false);
+
+  tables = result;
+  return result;
+}
+
+/**
+ * Convert a domain to lower-case ASCII (punycode) labels
+ */
+function asciiLabels(domain: string): string[] {
+  let ascii = domain.toLowerCase();
+  if (/[^\x00-\x7f]/.test(ascii)) {
+    try {
+      ascii = new URL('http://' + ascii).hostname;
+    } catch {
+      // Keep the original labels if the domain can't be converted
+    }
+  }
+  return ascii.split('.');
+}
+
+/**
+ * Get the number of labels in the public suffix of a domain
+ */
+function publicSuffixLength(labels: string[], options: PublicSuffixOptions): number {
+  const { rules, wildcards, exceptions } = getTables();
+  const allowPrivate = options.allowPrivate ?? true;
+  const applies = (table: RuleTable, key: string) => {
+    const icann = table.get(key);
+    return icann !== undefined && (icann || allowPrivate);
+  };
+
+  // Longest candidate first, so the first matching rule is the prevailing one
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (applies(exceptions, candidate)) {
+      return labels.length - i - 1;
+    }
+    const parent = labels.slice(i + 1).join('.');
+    if (applies(rules, candidate) || (i + 1 < labels.length && applies(wildcards, parent))) {
+      return labels.length - i;
+    }
+  }
+
+  // Default rule '*': the last label is the public suffix
+  return 1;
+}
+
+/**
+ * Split a domain into labels, ignoring a trailing dot
+ */
+function splitDomain(domain: string): string[] {
+  const trimmed = domain.charCodeAt(domain.length - 1) === '.'.charCodeAt(0)
+    ? domain.substring(0, domain.length - 1)
+    : domain;
+  return trimmed.split('.');
+}
+
+/**
+ * Get the public suffix of a domain (e.g. co.uk for www.example.co.uk)
+ *
+ * Unicode and punycode domains are both accepted; the result keeps the input form.
+ */
+export function getPublicSuffix(domain: string, options: PublicSuffixOptions = {}): string | null {
+  const labels = splitDomain(domain);
+  if (labels.some((label) => label.length === 0)) return null;
+
+  const length = publicSuffixLength(asciiLabels(labels.join('.')), options);
+  return labels.slice(-length).join('.');
+}
+
+/**
+ * Get the registrable domain (public suffix + 1 label) of a domain
+ *
+ * @returns null if the domain is itself a public suffix or invalid
+ */
+export function getRegistrableDomain(
+  domain: string,
+  options: PublicSuffixOptions = {}
+): string | null {
+  const labels = splitDomain(domain);
+  if (labels.some((label) => label.length === 0)) return null;
+
+  const length = publicSuffixLength(asciiLabels(labels.join('.')), options);
+  if (labels.length <= length) return null;
+  return labels.slice(-length - 1).join('.');
+}
@@ -15,7 +15,33 @@ function strStartsWith(str: string, prefix: string): boolean {
 
 export interface ParsedRule extends SwitchRule {
   source?: string;
-  note?: string;
+  /** 1-based line number of the rule, for Switchy rule lists */
+  line?: number;
+}
+
+/**
+ * Invalid line found by strict parsing
+ */
+export class RuleListError extends Error {
+  /** 1-based line number */
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'RuleListError';
+    this.line = line;
+  }
+}
+
+/**
+ * Rule list parsing options
+ */
+export interface RuleListParseOptions {
+  /**
+   * Throw a RuleListError for invalid lines instead of skipping them
+   * (only supported by the Switchy format)
+   */
+  strict?: boolean;
 }
 
 export interface RuleListFormat {
@@ -24,7 +50,12 @@ export interface RuleListFormat {
   /** Preprocess text before parsing */
   preprocess?: (text: string) => string;
   /** Parse text into rules */
-  parse: (text: string, matchProfileName: string, defaultProfileName: string) => ParsedRule[];
+  parse: (
+    text: string,
+    matchProfileName: string,
+    defaultProfileName: string,
+    options?: RuleListParseOptions
+  ) => ParsedRule[];
   /** Get direct reference set from profile */
   directReferenceSet?: (profile: {
     ruleList?: string;
@@ -137,12 +168,17 @@ const Switchy: RuleListFormat = {
     return undefined;
   },
 
-  parse: (text: string, matchProfileName: string, defaultProfileName: string): ParsedRule[] => {
+  parse: (
+    text: string,
+    matchProfileName: string,
+    defaultProfileName: string,
+    options: RuleListParseOptions = {}
+  ): ParsedRule[] => {
     const parser = getParser(text);
     if (parser === 'parseLegacy') {
       return parseLegacy(text, matchProfileName, defaultProfileName);
     }
-    return parseOmega(text, matchProfileName, defaultProfileName);
+    return parseOmega(text, matchProfileName, defaultProfileName, options);
   },
 
   directReferenceSet: ({ ruleList, defaultProfileName }) => {
@@ -184,6 +220,9 @@ const Switchy: RuleListFormat = {
       if (rule.note) {
         ruleList += '@note ' + rule.note + eol;
       }
+      if (rule.tags?.length) {
+        ruleList += '@tags ' + rule.tags.join(', ') + eol;
+      }
 
       let line = Conditions.str(rule.condition);
 
@@ -310,8 +349,12 @@ function parseOmega(
   let withResult = false;
   let exclusiveProfile: string | null = null;
   let noteForNextRule: string | null = null;
+  let tagsForNextRule: string[] | null = null;
 
-  for (const rawLine of text.split(/\n|\r/)) {
+  // Count CRLF as one line break, so errors report the line numbers of editors
+  const lines = text.split(/\r\n|\n|\r/);
+  for (const [index, rawLine] of lines.entries()) {
+    const lineNumber = index + 1;
     let line = rawLine.trim();
     if (line.length === 0) continue;
 
@@ -336,6 +379,11 @@ function parseOmega(
           case 'NOTE':
             noteForNextRule = directiveValue;
             break;
+          case 'TAGS': {
+            const tags = directiveValue.split(',').map((tag) => tag.trim());
+            tagsForNextRule = tags.filter((tag) => tag.length > 0);
+            break;
+          }
         }
         continue;
       }
@@ -354,7 +402,7 @@ function parseOmega(
       const iSpace = line.lastIndexOf(' +');
       if (iSpace < 0) {
         if (strict) {
-          throw new Error('Missing result profile name: ' + line);
+          throw new RuleListError('Missing result profile name: ' + line, lineNumber);
         }
         continue;
       }
@@ -370,7 +418,7 @@ function parseOmega(
     const cond = Conditions.fromStr(line);
     if (!cond) {
       if (strict) {
-        throw new Error('Invalid rule: ' + line);
+        throw new RuleListError('Invalid rule: ' + line, lineNumber);
       }
       continue;
     }
@@ -379,12 +427,17 @@ function parseOmega(
       condition: cond,
       profileName: profile ?? '',
       source: includeSource ? source ?? line : undefined,
+      line: lineNumber,
     };
 
     if (noteForNextRule) {
       rule.note = noteForNextRule;
       noteForNextRule = null;
     }
+    if (tagsForNextRule) {
+      if (tagsForNextRule.length > 0) rule.tags = tagsForNextRule;
+      tagsForNextRule = null;
+    }
 
     rules.push(rule);
 
@@ -396,7 +449,7 @@ function parseOmega(
   if (withResult) {
     if (!exclusiveProfile) {
       if (strict) {
-        throw new Error("Missing default rule with catch-all '*' condition");
+        throw new RuleListError("Missing default rule with catch-all '*' condition", lines.length);
       }
       exclusiveProfile = defaultProfileName || 'direct';
     }
@@ -140,11 +140,16 @@ export interface PacProfile extends BaseProfile {
   profileType: 'PacProfile';
   pacUrl?: string;
   pacScript?: string;
+  lastUpdate?: string;
 }
 
 export interface SwitchRule {
   condition: Condition;
   profileName: string;
+  /** Free-form description, kept as @note in rule list text */
+  note?: string;
+  /** Labels to find related rules, kept as @tags in rule list text */
+  tags?: string[];
 }
 
 export interface SwitchProfile extends BaseProfile {
@@ -193,13 +198,15 @@ export interface OmegaOptions {
   '-revertProxyChanges'?: boolean;
   '-showInspectMenu'?: boolean;
   '-downloadInterval'?: number;
+  '-pacDownloadInterval'?: number;
 }
 
 /**
  * Match result when a profile matches a request
  */
 export interface MatchResult {
-  profileName: string;
+  /** Next profile, or the PAC result of a fixed profile; unset for PAC script results */
+  profileName?: string;
   source?: string | Condition;
   proxy?: Proxy;
   auth?: ProxyAuth;
@@ -1,3 +1,5 @@
+import { getRegistrableDomain } from './psl';
+
 /**
  * Revision utilities for tracking profile changes
  */
@@ -93,25 +95,12 @@ export function isIp(domain: string): boolean {
 }
 
 /**
- * Get the base domain (TLD + 1) from a domain
- * For now, uses a simplified approach without tldjs dependency
+ * Get the base domain (registrable domain, public suffix + 1) from a domain
+ * Domains that are themselves public suffixes are returned as-is
  */
 export function getBaseDomain(domain: string): string {
   if (isIp(domain)) return domain;
-
-  // Simple implementation: return last two parts for most domains
-  // A proper implementation would use the public suffix list
-  const parts = domain.split('.');
-  if (parts.length <= 2) return domain;
-
-  // Handle common multi-part TLDs
-  const lastTwo = parts.slice(-2).join('.');
-  const commonMultiPartTlds = ['co.uk', 'com.au', 'co.jp', 'co.nz', 'com.br'];
-  if (commonMultiPartTlds.includes(lastTwo) && parts.length > 2) {
-    return parts.slice(-3).join('.');
-  }
-
-  return parts.slice(-2).join('.');
+  return getRegistrableDomain(domain) ?? domain;
 }
 
 /**
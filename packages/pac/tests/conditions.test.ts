@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { Conditions } from '../src/conditions';
+import { Conditions, parseIp, isIpInSubnet } from '../src/conditions';
 
 describe('Conditions', () => {
   describe('match', () => {
@@ -101,4 +101,57 @@ describe('Conditions', () => {
       expect((cond as { prefixLength: number }).prefixLength).toBe(24);
     });
   });
+  describe('IPv6', () => {
+    const request = (url: string) => {
+      const parsed = new URL(url);
+      return { url: parsed.href, host: parsed.hostname, scheme: parsed.protocol.slice(0, -1) };
+    };
+
+    it('should parse and normalize IPv6 addresses', () => {
+      expect(parseIp('2001:0DB8:0000:0000:0000:0000:0000:0001')?.address).toBe('2001:db8::1');
+      expect(parseIp('[::1]')?.address).toBe('::1');
+      expect(parseIp('fe80::1%eth0')?.address).toBe('fe80::1');
+      expect(parseIp('::ffff:192.0.2.1')?.words).toEqual([0, 0, 0, 0, 0, 0xffff, 0xc000, 0x201]);
+      expect(parseIp('2001:db8:0:1:1:1:1:1')?.address).toBe('2001:db8:0:1:1:1:1:1');
+      expect(parseIp('2001:db8::1::2')).toBeNull();
+      expect(parseIp('1:2:3:4:5:6:7:8:9')).toBeNull();
+      expect(parseIp('2001:db8::g')).toBeNull();
+    });
+
+    it('should match IPv6 subnets', () => {
+      expect(isIpInSubnet('2001:db8:1234::1', '2001:db8::', 32)).toBe(true);
+      expect(isIpInSubnet('[2001:db9::1]', '2001:db8::', 32)).toBe(false);
+      expect(isIpInSubnet('2001:db8::1', '2001:db8::', 127)).toBe(true);
+      expect(isIpInSubnet('2001:db8::1', '192.168.0.0', 16)).toBe(false);
+      expect(isIpInSubnet('10.1.2.3', '10.0.0.0', 8)).toBe(true);
+    });
+
+    it('should match IpCondition with an IPv6 prefix', () => {
+      const cond = Conditions.fromStr('Ip: 2001:db8::/32')!;
+      expect(Conditions.str(cond)).toBe('Ip: 2001:db8::/32');
+      expect(Conditions.match(cond, request('http://[2001:db8:ffff::1]/'))).toBe(true);
+      expect(Conditions.match(cond, request('http://[2001:db9::1]/'))).toBe(false);
+      expect(Conditions.match(cond, request('http://example.com/'))).toBe(false);
+      expect((Conditions.fromStr('Ip: ::1') as { prefixLength: number }).prefixLength).toBe(128);
+    });
+
+    it('should match IPv6 BypassConditions', () => {
+      const cidr = { conditionType: 'BypassCondition' as const, pattern: '2001:db8::/32' };
+      expect(Conditions.match(cidr, request('https://[2001:db8::5]/'))).toBe(true);
+      expect(Conditions.match(cidr, request('https://[2001:db9::5]/'))).toBe(false);
+
+      const literal = { conditionType: 'BypassCondition' as const, pattern: '[::1]' };
+      expect(Conditions.match(literal, request('http://[::1]/'))).toBe(true);
+      expect(Conditions.match(literal, request('http://[::2]/'))).toBe(false);
+
+      const withPort = { conditionType: 'BypassCondition' as const, pattern: '[0::1]:8080' };
+      expect(Conditions.str(withPort)).toBe('Bypass: [::1]:8080');
+      expect(Conditions.match(withPort, request('http://[::1]:8080/'))).toBe(true);
+      expect(Conditions.match(withPort, request('http://[::1]:8081/'))).toBe(false);
+
+      const local = { conditionType: 'BypassCondition' as const, pattern: '<local>' };
+      expect(Conditions.match(local, request('http://[::1]/'))).toBe(true);
+      expect(Conditions.match(local, request('http://[2001:db8::1]/'))).toBe(false);
+    });
+  });
 });
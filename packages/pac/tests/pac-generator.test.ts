@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
-import { generatePacScript, PacGenerator } from '../src/pac-generator';
+import { generatePacScript, PacGenerator, UNREACHABLE_PROXY } from '../src/pac-generator';
 import { Profiles } from '../src/profiles';
-import type { Profile, FixedProfile, SwitchProfile, RuleListProfile } from '../src/types';
+import type { Profile, FixedProfile, SwitchProfile, RuleListProfile, PacProfile } from '../src/types';
 
 describe('PAC Generator', () => {
   describe('generatePacScript', () => {
@@ -237,6 +237,106 @@ describe('PAC Generator', () => {
     });
   });
 
+  describe('IPv6 conditions', () => {
+    it('should match IPv6 subnets in the generated script', () => {
+      const options: Record<string, Profile> = {
+        '+proxy': {
+          name: 'proxy',
+          profileType: 'FixedProfile',
+          fallbackProxy: { scheme: 'http', host: 'proxy.example.com', port: 8080 },
+          bypassList: [{ conditionType: 'BypassCondition', pattern: '2001:db8:1::/48' }],
+        } as FixedProfile,
+        '+auto': {
+          name: 'auto',
+          profileType: 'SwitchProfile',
+          defaultProfileName: 'direct',
+          rules: [
+            {
+              condition: { conditionType: 'IpCondition', ip: '2001:db8::', prefixLength: 32 },
+              profileName: 'proxy',
+            },
+          ],
+        } as SwitchProfile,
+      };
+
+      const pacScript = generatePacScript(options, 'auto');
+      const FindProxyForURL = new Function(pacScript + '\nreturn FindProxyForURL;')();
+
+      expect(FindProxyForURL('http://[2001:db8:2::1]/', '2001:db8:2::1')).toBe(
+        'PROXY proxy.example.com:8080'
+      );
+      expect(FindProxyForURL('http://[2001:db8:2::1]/', '[2001:db8:2::1]')).toBe(
+        'PROXY proxy.example.com:8080'
+      );
+      expect(FindProxyForURL('http://[2001:db8:1::1]/', '2001:db8:1::1')).toBe('DIRECT');
+      expect(FindProxyForURL('http://[::ffff:10.0.0.1]/', '::ffff:a00:1')).toBe('DIRECT');
+      expect(FindProxyForURL('http://example.com/', 'example.com')).toBe('DIRECT');
+    });
+
+    it('should only include the helper when needed', () => {
+      const options: Record<string, Profile> = {
+        '+auto': {
+          name: 'auto',
+          profileType: 'SwitchProfile',
+          defaultProfileName: 'direct',
+          rules: [],
+        } as SwitchProfile,
+      };
+
+      expect(generatePacScript(options, 'auto')).not.toContain('_isInSubnet6');
+    });
+  });
+
+  describe('PacProfile embedding', () => {
+    const pacScript =
+      'function FindProxyForURL(url, host) { return host === "www.example.com" ? "PROXY pac.example.com:3128" : "DIRECT"; }';
+
+    it('should embed the downloaded script of a PAC URL profile', () => {
+      const options: Record<string, Profile> = {
+        '+remote': {
+          name: 'remote',
+          profileType: 'PacProfile',
+          pacUrl: 'https://example.com/proxy.pac',
+          pacScript,
+        } as PacProfile,
+        '+auto': {
+          name: 'auto',
+          profileType: 'SwitchProfile',
+          defaultProfileName: 'remote',
+          rules: [],
+        } as SwitchProfile,
+      };
+
+      const fn = new Function(generatePacScript(options, 'auto') + '\nreturn FindProxyForURL;');
+      const FindProxyForURL = fn();
+
+      expect(FindProxyForURL('http://www.example.com/', 'www.example.com')).toBe(
+        'PROXY pac.example.com:3128'
+      );
+      expect(FindProxyForURL('http://www.google.com/', 'www.google.com')).toBe('DIRECT');
+    });
+
+    it('should fail closed for PAC URLs that have not been downloaded yet', () => {
+      const options: Record<string, Profile> = {
+        '+remote': {
+          name: 'remote',
+          profileType: 'PacProfile',
+          pacUrl: 'https://example.com/proxy.pac\nreturn "DIRECT";',
+        } as PacProfile,
+      };
+
+      const script = generatePacScript(options, 'remote', { includeComments: true });
+      expect(script).toContain('has not been downloaded yet');
+      expect(script).toContain(`return "${UNREACHABLE_PROXY}"`);
+      expect(script).not.toContain('return "DIRECT"');
+
+      const FindProxyForURL = new Function(script + '\nreturn FindProxyForURL;')();
+      expect(FindProxyForURL('http://www.example.com/', 'www.example.com')).toBe(
+        UNREACHABLE_PROXY
+      );
+    });
+  });
+
   describe('PAC script execution', () => {
     it('should generate valid JavaScript', () => {
       const options: Record<string, Profile> = {
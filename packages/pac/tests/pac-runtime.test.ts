@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  compilePacScript,
+  createPacUtils,
+  evaluatePacScript,
+  normalizePacResult,
+  pacUtils,
+  parsePacResult,
+} from '../src/pac-runtime';
+import { generatePacScript } from '../src/pac-generator';
+import { Profiles } from '../src/profiles';
+import { requestFromUrl } from '../src/utils';
+import type { FixedProfile, Profile, SwitchProfile } from '../src/types';
+
+describe('PAC runtime', () => {
+  describe('pacUtils', () => {
+    it('should implement host name helpers', () => {
+      expect(pacUtils.isPlainHostName('intranet')).toBe(true);
+      expect(pacUtils.isPlainHostName('www.example.com')).toBe(false);
+      expect(pacUtils.dnsDomainIs('www.Example.com', '.example.com')).toBe(true);
+      expect(pacUtils.dnsDomainIs('www.example.org', '.example.com')).toBe(false);
+      expect(pacUtils.localHostOrDomainIs('www', 'www.example.com')).toBe(true);
+      expect(pacUtils.localHostOrDomainIs('www.example.com', 'www.example.com')).toBe(true);
+      expect(pacUtils.localHostOrDomainIs('www.example.org', 'www.example.com')).toBe(false);
+      expect(pacUtils.dnsDomainLevels('www.example.com')).toBe(2);
+    });
+
+    it('should match shell expressions', () => {
+      expect(pacUtils.shExpMatch('http://www.example.com/a', '*.example.com/*')).toBe(true);
+      expect(pacUtils.shExpMatch('www.example.com', 'www.example.co?')).toBe(true);
+      expect(pacUtils.shExpMatch('wwwxexample.com', 'www.example.com')).toBe(false);
+    });
+
+    it('should match IP addresses in networks', () => {
+      expect(pacUtils.isInNet('192.168.1.20', '192.168.0.0', '255.255.0.0')).toBe(true);
+      expect(pacUtils.isInNet('10.0.0.1', '192.168.0.0', '255.255.0.0')).toBe(false);
+      expect(pacUtils.isInNet('example.com', '0.0.0.0', '0.0.0.0')).toBe(false);
+      expect(pacUtils.isInNetEx('2001:db8::1', '2001:db8::/32')).toBe(true);
+      expect(pacUtils.isInNetEx('2001:db9::1', '2001:db8::/32')).toBe(false);
+      expect(pacUtils.convert_addr('192.168.1.1')).toBe(0xc0a80101);
+      expect(pacUtils.sortIpAddressList('10.0.0.2;::1;10.0.0.1')).toBe('::1;10.0.0.1;10.0.0.2');
+    });
+
+    it('should only resolve IP literals', () => {
+      expect(pacUtils.dnsResolve('127.0.0.1')).toBe('127.0.0.1');
+      expect(pacUtils.dnsResolve('example.com')).toBeNull();
+      expect(pacUtils.isResolvable('example.com')).toBe(false);
+      expect(pacUtils.dnsResolveEx('[::1]')).toBe('::1');
+    });
+  });
+
+  describe('DNS resolution', () => {
+    const dnsResolve = vi.fn((host: string) => {
+      if (host === 'intranet.example.com') return ['10.1.2.3', 'fd00::1'];
+      if (host === 'v6.example.com') return ['2001:db8::1'];
+      throw new Error('NXDOMAIN');
+    });
+    const utils = createPacUtils({ dnsResolve, myIpAddresses: ['192.168.1.5', 'fe80::1'] });
+
+    it('should use the pluggable resolver', () => {
+      expect(utils.dnsResolve('intranet.example.com')).toBe('10.1.2.3');
+      expect(utils.dnsResolveEx('intranet.example.com')).toBe('10.1.2.3;fd00::1');
+      expect(utils.isResolvable('intranet.example.com')).toBe(true);
+      expect(utils.isResolvable('v6.example.com')).toBe(false);
+      expect(utils.isResolvableEx('v6.example.com')).toBe(true);
+    });
+
+    it('should treat resolver failures as unresolvable', () => {
+      expect(utils.dnsResolve('missing.example.com')).toBeNull();
+      expect(utils.isResolvableEx('missing.example.com')).toBe(false);
+      expect(utils.isInNet('missing.example.com', '0.0.0.0', '0.0.0.0')).toBe(false);
+    });
+
+    it('should resolve hosts for network checks', () => {
+      expect(utils.isInNet('intranet.example.com', '10.0.0.0', '255.0.0.0')).toBe(true);
+      expect(utils.isInNetEx('v6.example.com', '2001:db8::/32')).toBe(true);
+    });
+
+    it('should not look up IP literals', () => {
+      dnsResolve.mockClear();
+      expect(utils.dnsResolve('10.0.0.1')).toBe('10.0.0.1');
+      expect(dnsResolve).not.toHaveBeenCalled();
+    });
+
+    it('should report the configured local addresses', () => {
+      expect(utils.myIpAddress()).toBe('192.168.1.5');
+      expect(utils.myIpAddressEx()).toBe('192.168.1.5;fe80::1');
+    });
+
+    it('should pass the environment to scripts', () => {
+      const result = evaluatePacScript(
+        'function FindProxyForURL(url, host) { return "PROXY " + dnsResolve(host) + ":80"; }',
+        'http://intranet.example.com/',
+        { dnsResolve }
+      );
+      expect(result).toBe('PROXY 10.1.2.3:80');
+    });
+  });
+
+  describe('time helpers', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      // Wednesday, 2024-06-12 14:30:15 UTC
+      vi.setSystemTime(new Date(Date.UTC(2024, 5, 12, 14, 30, 15)));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should match weekday ranges', () => {
+      expect(pacUtils.weekdayRange('WED', 'GMT')).toBe(true);
+      expect(pacUtils.weekdayRange('MON', 'FRI', 'GMT')).toBe(true);
+      expect(pacUtils.weekdayRange('SAT', 'TUE', 'GMT')).toBe(false);
+      expect(pacUtils.weekdayRange('FRI', 'WED', 'GMT')).toBe(true);
+    });
+
+    it('should match date ranges', () => {
+      expect(pacUtils.dateRange(12, 'GMT')).toBe(true);
+      expect(pacUtils.dateRange('JUN', 'GMT')).toBe(true);
+      expect(pacUtils.dateRange(2024, 'GMT')).toBe(true);
+      expect(pacUtils.dateRange(1, 15, 'GMT')).toBe(true);
+      expect(pacUtils.dateRange('JUL', 'DEC', 'GMT')).toBe(false);
+      expect(pacUtils.dateRange('NOV', 'JUN', 'GMT')).toBe(true);
+      expect(pacUtils.dateRange(1, 'JUN', 2024, 30, 'JUN', 2024, 'GMT')).toBe(true);
+      expect(pacUtils.dateRange(1, 'JUN', 2023, 30, 'JUN', 2023, 'GMT')).toBe(false);
+    });
+
+    it('should use the runtime clock', () => {
+      const utils = createPacUtils({ now: () => new Date(Date.UTC(2024, 0, 6, 3, 0, 0)) });
+      expect(utils.weekdayRange('SAT', 'GMT')).toBe(true);
+      expect(utils.dateRange('JAN', 'GMT')).toBe(true);
+      expect(utils.timeRange(3, 'GMT')).toBe(true);
+    });
+
+    it('should match time ranges', () => {
+      expect(pacUtils.timeRange(14, 'GMT')).toBe(true);
+      expect(pacUtils.timeRange(9, 17, 'GMT')).toBe(true);
+      expect(pacUtils.timeRange(14, 0, 14, 30, 'GMT')).toBe(true);
+      expect(pacUtils.timeRange(14, 31, 15, 0, 'GMT')).toBe(false);
+      expect(pacUtils.timeRange(22, 0, 0, 15, 0, 0, 'GMT')).toBe(true);
+    });
+  });
+
+  describe('compilePacScript', () => {
+    it('should run FindProxyForURL with the PAC helpers', () => {
+      const findProxy = compilePacScript(`
+        function FindProxyForURL(url, host) {
+          if (dnsDomainIs(host, ".example.com")) return "PROXY proxy:8080";
+          return "DIRECT";
+        }
+      `);
+      expect(findProxy('http://www.example.com/', 'www.example.com')).toBe('PROXY proxy:8080');
+      expect(findProxy('http://example.org/', 'example.org')).toBe('DIRECT');
+    });
+
+    it('should hide common globals from scripts', () => {
+      const result = evaluatePacScript(
+        'function FindProxyForURL() { return typeof fetch + " " + typeof window; }',
+        'http://example.com/'
+      );
+      expect(result).toBe('undefined undefined');
+    });
+
+    it('should reject scripts without FindProxyForURL', () => {
+      expect(() => compilePacScript('var x = 1;')).toThrow('FindProxyForURL');
+      expect(() => compilePacScript('function (')).toThrow();
+    });
+  });
+
+  describe('generated scripts', () => {
+    const options: Record<string, Profile> = {
+      '+proxy': {
+        name: 'proxy',
+        profileType: 'FixedProfile',
+        fallbackProxy: { scheme: 'http', host: 'proxy.example.com', port: 8080 },
+        bypassList: [{ conditionType: 'BypassCondition', pattern: '<local>' }],
+      } as FixedProfile,
+      '+auto': {
+        name: 'auto',
+        profileType: 'SwitchProfile',
+        defaultProfileName: 'direct',
+        rules: [
+          {
+            condition: { conditionType: 'HostWildcardCondition', pattern: '*.example.com' },
+            profileName: 'proxy',
+          },
+          {
+            condition: { conditionType: 'IpCondition', ip: '2001:db8::', prefixLength: 32 },
+            profileName: 'proxy',
+          },
+        ],
+      } as SwitchProfile,
+    };
+
+    it.each([
+      'http://www.example.com/',
+      'https://example.com/path',
+      'http://example.org/',
+      'http://[2001:db8::1]/',
+      'http://localhost/',
+    ])('should agree with in-extension matching for %s', (url) => {
+      const script = generatePacScript(options, 'auto');
+      const hops = Profiles.matchChain('auto', requestFromUrl(url), options);
+      const expected = Profiles.pacResult(hops[hops.length - 1]!.result!.proxy);
+
+      expect(normalizePacResult(evaluatePacScript(script, url))).toBe(
+        normalizePacResult(expected)
+      );
+    });
+  });
+
+  describe('parsePacResult', () => {
+    it('should parse proxies in order of preference', () => {
+      expect(parsePacResult('SOCKS5 127.0.0.1:1080; PROXY [::1]:8080; DIRECT')).toEqual([
+        { scheme: 'socks5', host: '127.0.0.1', port: 1080 },
+        { scheme: 'http', host: '::1', port: 8080 },
+        { scheme: 'direct' },
+      ]);
+    });
+
+    it('should skip invalid entries', () => {
+      expect(parsePacResult('PROXY nowhere; QUIC a:1; https a.example.com:443')).toEqual([
+        { scheme: 'https', host: 'a.example.com', port: 443 },
+      ]);
+    });
+  });
+
+  describe('normalizePacResult', () => {
+    it('should normalize case and whitespace', () => {
+      expect(normalizePacResult('proxy  a:1 ;direct;')).toBe('PROXY a:1; DIRECT');
+    });
+  });
+});
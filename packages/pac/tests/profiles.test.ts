@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { Profiles, pacResult, nameAsKey, byName, create, match, directReferenceSet, profileEmojis, profileTypeColors, getRandomEmoji, getDefaultColor } from '../src/profiles';
-import type { FixedProfile, SwitchProfile, RuleListProfile } from '../src/types';
+import { Profiles, pacResult, nameAsKey, byName, create, match, matchChain, matchChainAsync, addCondition, directReferenceSet, profileEmojis, profileTypeColors, getRandomEmoji, getDefaultColor } from '../src/profiles';
+import type { FixedProfile, PacProfile, SwitchProfile, RuleListProfile } from '../src/types';
 
 describe('Profiles', () => {
   describe('nameAsKey', () => {
@@ -121,6 +121,153 @@ describe('Profiles', () => {
       const result2 = match(profile, { url: 'http://other.com', host: 'other.com', scheme: 'http' });
       expect(result2?.profileName).toBe('direct');
     });
+
+    it('should evaluate the PAC script of PacProfile', () => {
+      const profile = create('pac', 'PacProfile') as PacProfile;
+      profile.pacScript = `function FindProxyForURL(url, host) {
+        if (dnsDomainIs(host, ".example.com")) return "SOCKS5 127.0.0.1:1080; DIRECT";
+        return "DIRECT";
+      }`;
+
+      const result1 = match(profile, { url: 'http://www.example.com/', host: 'www.example.com', scheme: 'http' });
+      // A PAC result is not a profile name
+      expect(result1?.profileName).toBeUndefined();
+      expect(result1?.source).toBe('SOCKS5 127.0.0.1:1080; DIRECT');
+      expect(result1?.proxy).toEqual({ scheme: 'socks5', host: '127.0.0.1', port: 1080 });
+
+      const result2 = match(profile, { url: 'http://other.com/', host: 'other.com', scheme: 'http' });
+      expect(result2?.proxy).toEqual({ scheme: 'direct' });
+
+      // The compiled script is refreshed when the script changes
+      profile.pacScript = 'function FindProxyForURL() { return "PROXY proxy.com:3128"; }';
+      const result3 = match(profile, { url: 'http://other.com/', host: 'other.com', scheme: 'http' });
+      expect(result3?.proxy).toEqual({ scheme: 'http', host: 'proxy.com', port: 3128 });
+    });
+
+    it('should not match PacProfile with a missing or broken script', () => {
+      const request = { url: 'http://example.com/', host: 'example.com', scheme: 'http' };
+      const profile = create('pac', 'PacProfile') as PacProfile;
+      profile.pacScript = '';
+      expect(match(profile, request)).toBeNull();
+
+      profile.pacScript = 'function FindProxyForURL( {';
+      expect(match(profile, request)).toBeNull();
+
+      profile.pacScript = 'function FindProxyForURL() { throw new Error("oops"); }';
+      expect(match(profile, request)).toBeNull();
+    });
+
+    it('should resolve hosts in PAC scripts with the given DNS', () => {
+      const request = { url: 'http://intranet/', host: 'intranet', scheme: 'http' };
+      const profile = create('pac', 'PacProfile') as PacProfile;
+      profile.pacScript = `function FindProxyForURL(url, host) {
+        return isInNet(host, "10.0.0.0", "255.0.0.0") ? "DIRECT" : "PROXY proxy.com:3128";
+      }`;
+
+      expect(match(profile, request)?.proxy?.scheme).toBe('http');
+      const pacRuntime = { dnsResolve: (host: string) => (host === 'intranet' ? ['10.1.2.3'] : []) };
+      expect(match(profile, request, { pacRuntime })?.proxy?.scheme).toBe('direct');
+    });
+  });
+
+  describe('update', () => {
+    it('should return the download URL of online profiles', () => {
+      const rl = create('list', 'RuleListProfile') as RuleListProfile;
+      expect(Profiles.updateUrl(rl)).toBeUndefined();
+      rl.sourceUrl = 'https://example.com/list.txt';
+      expect(Profiles.updateUrl(rl)).toBe('https://example.com/list.txt');
+
+      const pac = create({ name: 'pac', pacUrl: 'file:///tmp/proxy.pac' }, 'PacProfile');
+      expect(Profiles.updateUrl(pac)).toBeUndefined();
+    });
+
+    it('should detect and decode AutoProxy rule lists', () => {
+      const rl = create('list', 'RuleListProfile') as RuleListProfile;
+      const changed = Profiles.update(rl, btoa('[AutoProxy 0.2.9]\n||example.com'));
+      expect(changed).toBe(true);
+      expect(rl.format).toBe('AutoProxy');
+      expect(rl.ruleList).toBe('[AutoProxy 0.2.9]\n||example.com');
+      expect(Profiles.update(rl, rl.ruleList!)).toBe(false);
+    });
+  });
+
+  describe('addCondition', () => {
+    it('should add the rule first and replace rules with the same condition', () => {
+      const sw = create('auto', 'SwitchProfile') as SwitchProfile;
+      sw.rules = [
+        { condition: { conditionType: 'HostWildcardCondition', pattern: '*.example.com' }, profileName: 'a' },
+        { condition: { conditionType: 'HostWildcardCondition', pattern: '*.other.com' }, profileName: 'b' },
+      ];
+
+      expect(
+        addCondition(sw, { conditionType: 'HostWildcardCondition', pattern: '*.other.com' }, 'c')
+      ).toBe(true);
+      expect(sw.rules.map((r) => r.profileName)).toEqual(['c', 'a']);
+    });
+
+    it('should reject profiles without rules', () => {
+      const fixed = create('proxy', 'FixedProfile');
+      expect(addCondition(fixed, { conditionType: 'TrueCondition' }, 'direct')).toBe(false);
+    });
+  });
+
+  describe('matchChain', () => {
+    const request = { url: 'http://www.example.com/', host: 'www.example.com', scheme: 'http' };
+
+    it('should follow SwitchProfile results to the final FixedProfile', () => {
+      const proxy = create('proxy', 'FixedProfile') as FixedProfile;
+      proxy.fallbackProxy = { scheme: 'http', host: 'proxy.com', port: 8080 };
+      proxy.auth = { fallbackProxy: { username: 'user', password: 'pass' } };
+      const sw = create('auto', 'SwitchProfile') as SwitchProfile;
+      sw.rules = [
+        {
+          condition: { conditionType: 'HostWildcardCondition', pattern: '*.example.com' },
+          profileName: 'proxy',
+        },
+      ];
+      const options = { '+proxy': proxy, '+auto': sw };
+
+      const hops = matchChain('auto', request, options);
+      expect(hops.map((hop) => hop.profile.name)).toEqual(['auto', 'proxy']);
+      expect(hops[1]?.result?.proxy?.host).toBe('proxy.com');
+      expect(hops[1]?.result?.auth?.username).toBe('user');
+    });
+
+    it('should stop on reference cycles', () => {
+      const a = create('a', 'SwitchProfile') as SwitchProfile;
+      a.defaultProfileName = 'b';
+      const b = create('b', 'SwitchProfile') as SwitchProfile;
+      b.defaultProfileName = 'a';
+
+      const hops = matchChain('a', request, { '+a': a, '+b': b });
+      expect(hops.map((hop) => hop.profile.name)).toEqual(['a', 'b']);
+    });
+
+    it('should return no hops for missing profiles', () => {
+      expect(matchChain('missing', request)).toEqual([]);
+    });
+
+    it('should evaluate PAC scripts with an evaluator in matchChainAsync', async () => {
+      const pac = create('pac', 'PacProfile') as PacProfile;
+      pac.pacScript = 'function FindProxyForURL() { return "PROXY pac.com:8080"; }';
+      const auto = create('auto', 'SwitchProfile') as SwitchProfile;
+      auto.defaultProfileName = 'pac';
+      const options = { '+auto': auto, '+pac': pac };
+
+      const evaluated: string[] = [];
+      const hops = await matchChainAsync('auto', request, options, async (script, url) => {
+        evaluated.push(url);
+        return script.includes('pac.com') ? 'PROXY pac.com:8080' : 'DIRECT';
+      });
+      expect(evaluated).toEqual([request.url]);
+      expect(hops.map((hop) => hop.profile.name)).toEqual(['auto', 'pac']);
+      expect(hops[1]?.result?.proxy).toEqual({ scheme: 'http', host: 'pac.com', port: 8080 });
+
+      const failed = await matchChainAsync('auto', request, options, async () => {
+        throw new Error('Code evaluation is not allowed');
+      });
+      expect(failed[1]?.result).toBeNull();
+    });
   });
 
   describe('profile icons and colors', () => {
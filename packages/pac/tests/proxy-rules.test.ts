@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { bypassListFor, fixedServersRules } from '../src/proxy-rules';
+import type { FixedProfile } from '../src/types';
+
+function fixed(props: Partial<FixedProfile>): FixedProfile {
+  return { name: 'proxy', profileType: 'FixedProfile', ...props };
+}
+
+describe('fixedServersRules', () => {
+  it('should use a single proxy for the fallback only', () => {
+    const profile = fixed({ fallbackProxy: { scheme: 'socks5', host: '127.0.0.1', port: 1080 } });
+    expect(fixedServersRules(profile)).toEqual({
+      singleProxy: { scheme: 'socks5', host: '127.0.0.1', port: 1080 },
+    });
+  });
+
+  it('should use scheme-specific proxies with the fallback', () => {
+    expect(
+      fixedServersRules(
+        fixed({
+          proxyForHttp: { scheme: 'http', host: 'http.example.com', port: 3128 },
+          proxyForHttps: { scheme: 'https', host: 'https.example.com', port: 443 },
+          fallbackProxy: { scheme: 'socks5', host: '127.0.0.1', port: 1080 },
+        })
+      )
+    ).toEqual({
+      proxyForHttp: { scheme: 'http', host: 'http.example.com', port: 3128 },
+      proxyForHttps: { scheme: 'https', host: 'https.example.com', port: 443 },
+      fallbackProxy: { scheme: 'socks5', host: '127.0.0.1', port: 1080 },
+    });
+  });
+
+  it('should apply scheme-specific proxies without a fallback', () => {
+    const profile = fixed({ proxyForFtp: { scheme: 'http', host: 'ftp.example.com', port: 21 } });
+    expect(fixedServersRules(profile)).toEqual({
+      proxyForFtp: { scheme: 'http', host: 'ftp.example.com', port: 21 },
+    });
+  });
+
+  it('should return null if no proxy is used', () => {
+    expect(fixedServersRules(fixed({}))).toBeNull();
+    expect(fixedServersRules(fixed({ fallbackProxy: { scheme: 'direct' } }))).toBeNull();
+  });
+
+  it('should return null for direct schemes next to a fallback proxy', () => {
+    expect(
+      fixedServersRules(
+        fixed({
+          proxyForHttp: { scheme: 'direct' },
+          fallbackProxy: { scheme: 'http', host: '127.0.0.1', port: 8080 },
+        })
+      )
+    ).toBeNull();
+  });
+});
+
+describe('bypassListFor', () => {
+  it('should keep bypass conditions as-is', () => {
+    expect(
+      bypassListFor([
+        { conditionType: 'BypassCondition', pattern: '<local>' },
+        { conditionType: 'BypassCondition', pattern: '192.168.0.0/16' },
+        { conditionType: 'BypassCondition', pattern: 'https://*.example.com:8443' },
+      ])
+    ).toEqual(['<local>', '192.168.0.0/16', 'https://*.example.com:8443']);
+  });
+
+  it('should translate host wildcards and IP conditions', () => {
+    expect(
+      bypassListFor([
+        { conditionType: 'HostWildcardCondition', pattern: '*.example.com|**.example.org' },
+        { conditionType: 'HostWildcardCondition', pattern: 'intranet' },
+        { conditionType: 'IpCondition', ip: '[fe80::]', prefixLength: 10 },
+        { conditionType: 'FalseCondition' },
+      ])
+    ).toEqual(['example.com', '*.example.com', '*.example.org', 'intranet', 'fe80::/10']);
+  });
+
+  it('should return null for conditions without an equivalent', () => {
+    expect(
+      bypassListFor([{ conditionType: 'HostLevelsCondition', minValue: 0, maxValue: 0 }])
+    ).toBeNull();
+    expect(
+      bypassListFor([{ conditionType: 'TimeCondition', startHour: 9, endHour: 17 }])
+    ).toBeNull();
+    expect(bypassListFor([{ conditionType: 'HostWildcardCondition', pattern: 'ho?t' }])).toBeNull();
+  });
+
+  it('should only build rules if the whole bypass list is translated', () => {
+    const profile = fixed({
+      fallbackProxy: { scheme: 'http', host: '127.0.0.1', port: 8080 },
+      bypassList: [{ conditionType: 'HostLevelsCondition', minValue: 0, maxValue: 0 }],
+    });
+    expect(fixedServersRules(profile)).toBeNull();
+
+    profile.bypassList = [{ conditionType: 'HostWildcardCondition', pattern: '*.example.com' }];
+    expect(fixedServersRules(profile)).toEqual({
+      singleProxy: { scheme: 'http', host: '127.0.0.1', port: 8080 },
+      bypassList: ['example.com', '*.example.com'],
+    });
+  });
+});
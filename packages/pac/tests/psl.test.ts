@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { getPublicSuffix, getRegistrableDomain } from '../src/psl';
+
+describe('Public Suffix List', () => {
+  describe('getPublicSuffix', () => {
+    it('should find ICANN suffixes', () => {
+      expect(getPublicSuffix('www.example.com')).toBe('com');
+      expect(getPublicSuffix('x.gov.uk')).toBe('gov.uk');
+      expect(getPublicSuffix('a.b.com.cn')).toBe('com.cn');
+    });
+
+    it('should use the default rule for unknown TLDs', () => {
+      expect(getPublicSuffix('foo.bar.unknowntld')).toBe('unknowntld');
+    });
+
+    it('should apply private rules unless disabled', () => {
+      expect(getPublicSuffix('foo.github.io')).toBe('github.io');
+      expect(getPublicSuffix('foo.github.io', { allowPrivate: false })).toBe('io');
+    });
+
+    it('should apply wildcard and exception rules', () => {
+      // *.ck and !www.ck
+      expect(getPublicSuffix('a.b.ck')).toBe('b.ck');
+      expect(getPublicSuffix('www.ck')).toBe('ck');
+      expect(getPublicSuffix('a.www.ck')).toBe('ck');
+    });
+
+    it('should handle Unicode and punycode domains', () => {
+      expect(getPublicSuffix('www.食狮.公司.cn')).toBe('公司.cn');
+      expect(getPublicSuffix('www.xn--85x722f.xn--55qx5d.cn')).toBe('xn--55qx5d.cn');
+    });
+  });
+
+  describe('getRegistrableDomain', () => {
+    it('should return the suffix plus one label', () => {
+      expect(getRegistrableDomain('www.example.co.uk')).toBe('example.co.uk');
+      expect(getRegistrableDomain('foo.github.io')).toBe('foo.github.io');
+      expect(getRegistrableDomain('a.b.example.com.')).toBe('example.com');
+      expect(getRegistrableDomain('www.食狮.公司.cn')).toBe('食狮.公司.cn');
+    });
+
+    it('should return null for public suffixes and invalid domains', () => {
+      expect(getRegistrableDomain('co.uk')).toBeNull();
+      expect(getRegistrableDomain('github.io')).toBeNull();
+      expect(getRegistrableDomain('a..com')).toBeNull();
+    });
+  });
+});
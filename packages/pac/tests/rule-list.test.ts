@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { RuleList, RuleListError } from '../src/rule-list';
+import type { SwitchRule } from '../src/types';
+
+const rules: SwitchRule[] = [
+  {
+    condition: { conditionType: 'HostWildcardCondition', pattern: '*.example.com' },
+    profileName: 'proxy',
+  },
+  {
+    condition: { conditionType: 'UrlRegexCondition', pattern: '^https://' },
+    profileName: 'direct',
+  },
+];
+
+describe('RuleList.Switchy', () => {
+  it('should round-trip rules with results, notes and tags', () => {
+    const annotated = { ...rules[0]!, note: 'Work sites', tags: ['work', 'vpn only'] };
+    const text = RuleList.Switchy!.compose!(
+      { rules: [annotated, rules[1]!], defaultProfileName: 'direct' },
+      { withResult: true }
+    );
+    expect(text).toContain('@note Work sites\r\n@tags work, vpn only\r\n*.example.com +proxy');
+
+    const parsed = RuleList.Switchy!.parse(text, '', '', { strict: true }).map(
+      ({ source: _source, ...rule }) => rule
+    );
+    expect(parsed).toEqual([
+      { ...annotated, line: 6 },
+      { ...rules[1], line: 7 },
+      {
+        condition: { conditionType: 'HostWildcardCondition', pattern: '*' },
+        profileName: 'direct',
+        line: 9,
+      },
+    ]);
+  });
+
+  it('should report the line of invalid rules in strict mode', () => {
+    const parse = (text: string) => () => RuleList.Switchy!.parse(text, '', '', { strict: true });
+    const header = '[SwitchyOmega Conditions]\r\n@with result\r\n\r\n';
+
+    expect(parse(header + '*.example.com\r\n* +direct')).toThrow(
+      new RuleListError('Missing result profile name: *.example.com', 4)
+    );
+    expect(parse(header + 'Nope: example.com +proxy\n* +direct')).toThrow(
+      'Line 4: Invalid rule: Nope: example.com'
+    );
+    expect(parse(header + '*.example.com +proxy\n')).toThrow(
+      "Line 5: Missing default rule with catch-all '*' condition"
+    );
+
+    // Invalid lines are skipped otherwise
+    expect(RuleList.Switchy!.parse(header + '*.example.com\n* +direct', '', '')).toHaveLength(1);
+  });
+});
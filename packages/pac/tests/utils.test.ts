@@ -77,6 +77,13 @@ describe('utils', () => {
     it('should handle domains without subdomain', () => {
       expect(getBaseDomain('example.com')).toBe('example.com');
     });
+
+    it('should use the public suffix list', () => {
+      expect(getBaseDomain('foo.github.io')).toBe('foo.github.io');
+      expect(getBaseDomain('x.gov.uk')).toBe('x.gov.uk');
+      expect(getBaseDomain('a.b.com.cn')).toBe('b.com.cn');
+      expect(getBaseDomain('co.uk')).toBe('co.uk');
+    });
   });
 
   describe('Revision', () => {